@@ -0,0 +1,101 @@
+import { formatTimestamp, timestampToSeconds, type SrtEntry } from "./srt";
+
+// Field order used by both ASS ("Layer") and SSA v4 ("Marked") when the
+// [Events] section does not declare its own Format line
+const DEFAULT_EVENT_FORMAT = [
+  "layer",
+  "start",
+  "end",
+  "style",
+  "name",
+  "marginl",
+  "marginr",
+  "marginv",
+  "effect",
+  "text",
+];
+
+function parseFormatLine(line: string): string[] {
+  return line
+    .slice(line.indexOf(":") + 1)
+    .split(",")
+    .map((field) => field.trim().toLowerCase());
+}
+
+function splitEventFields(line: string, fieldCount: number): string[] {
+  // Only the last field (Text) may contain commas
+  const payload = line.slice(line.indexOf(":") + 1);
+  const fields: string[] = [];
+  let rest = payload;
+  for (let i = 0; i < fieldCount - 1; i++) {
+    const comma = rest.indexOf(",");
+    if (comma < 0) break;
+    fields.push(rest.slice(0, comma).trim());
+    rest = rest.slice(comma + 1);
+  }
+  fields.push(rest.trim());
+  return fields;
+}
+
+function cleanDialogueText(text: string): string {
+  return text
+    .replace(/\{[^}]*\}/g, "")
+    .replace(/\\[Nnh]/g, " ")
+    .trim();
+}
+
+export function isAssContent(content: string): boolean {
+  return /^\s*\[Script Info\]/im.test(content) || /^Dialogue:/m.test(content);
+}
+
+export function parseAss(content: string): SrtEntry[] {
+  const lines = content.split(/\r?\n/);
+  const entries: SrtEntry[] = [];
+  let section = "";
+  let format = DEFAULT_EVENT_FORMAT;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(";")) continue;
+
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch?.[1]) {
+      section = sectionMatch[1].toLowerCase();
+      continue;
+    }
+    if (section && section !== "events") continue;
+
+    if (/^Format:/i.test(line)) {
+      format = parseFormatLine(line);
+      continue;
+    }
+    if (!/^Dialogue:/i.test(line)) continue;
+
+    const fields = splitEventFields(line, format.length);
+    const field = (name: string) => fields[format.indexOf(name)] ?? "";
+
+    const rawStart = field("start");
+    const rawEnd = field("end");
+    if (!rawStart || !rawEnd) continue;
+
+    const text = cleanDialogueText(field("text"));
+    if (!text) continue;
+
+    // The actor field names the speaker
+    const speaker = field("name") || undefined;
+    const startSeconds = timestampToSeconds(rawStart);
+    const endSeconds = timestampToSeconds(rawEnd);
+
+    entries.push({
+      start: formatTimestamp(startSeconds),
+      end: formatTimestamp(endSeconds),
+      startSeconds,
+      endSeconds,
+      text,
+      speaker,
+    });
+  }
+
+  // Dialogue lines are not required to be in time order
+  return entries.sort((a, b) => a.startSeconds - b.startSeconds);
+}
@@ -0,0 +1,341 @@
+import { createInterface } from "node:readline";
+import { verifyCitations } from "./citations";
+import { listLessonsAcross, type Collection } from "./collections";
+import {
+  createChatSession,
+  getChatSession,
+  getChatTurns,
+  insertChatTurn,
+  listChatSessions,
+  updateChatSession,
+  withDatabase,
+  type ChatSessionRecord,
+  type ChatTurnRecord,
+} from "./db";
+import { resolveLessonSelectors } from "./lessons";
+import { printSources, printVerification } from "./output";
+import type { TextModels } from "./providers";
+import {
+  answerQuestion,
+  rewriteQuestion,
+  streamAnswer,
+  type RetrievalParams,
+} from "./search";
+
+export type ChatOptions = {
+  collections: Collection[];
+  models: TextModels;
+  topK: number;
+  lessons?: string[];
+  // These apply for this run only; they are not saved with the session
+  speakers?: string[];
+  from?: number;
+  to?: number;
+  // Resume this saved session, or start saving under this name
+  session?: string;
+  params?: RetrievalParams;
+};
+
+type ChatState = {
+  turns: ChatTurnRecord[];
+  lessons?: string[];
+  topK: number;
+  session?: ChatSessionRecord;
+};
+
+const HELP = `Commands:
+  /lessons [names|all]  Show or set the lesson filter (comma-separated)
+  /topk <n>             Set how many chunks to retrieve
+  /sources              Show the sources of the last answer
+  /save <name>          Save this conversation (later turns are saved too)
+  /sessions             List saved sessions
+  /new                  Start a new conversation
+  /exit                 Quit`;
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function describeFilter(state: ChatState) {
+  const lessons = state.lessons ? state.lessons.join(", ") : "all lessons";
+  return `Using ${lessons}, top-k ${state.topK}.`;
+}
+
+export async function runChat(options: ChatOptions) {
+  // Sessions live in the first collection's database
+  const sessionDb = options.collections[0]?.dbPath;
+  if (!sessionDb) throw new Error("No collection to chat with.");
+  const inSessionDb = <T>(fn: () => T) => withDatabase(sessionDb, fn);
+  const withCollection = options.collections.length > 1;
+
+  const state: ChatState = {
+    turns: [],
+    lessons: options.lessons,
+    topK: options.topK,
+  };
+
+  if (options.session) {
+    const name = options.session;
+    const existing = inSessionDb(() => getChatSession(name));
+    if (existing) {
+      state.session = existing;
+      state.turns = inSessionDb(() => getChatTurns(existing.id));
+      state.lessons = options.lessons ?? existing.lessons;
+      state.topK = existing.topK ?? options.topK;
+      console.log(
+        `Resumed session ${name} (${state.turns.length} turn(s)). ${describeFilter(state)}`,
+      );
+    } else {
+      state.session = inSessionDb(() => createChatSession(name, state));
+      console.log(`Saving this chat as session ${name}.`);
+    }
+  }
+
+  const persistSettings = () => {
+    const session = state.session;
+    if (session) inSessionDb(() => updateChatSession(session.id, state));
+  };
+
+  async function setLessons(arg: string) {
+    if (!arg) {
+      const available = await listLessonsAcross(options.collections);
+      console.log(describeFilter(state));
+      console.log(`Available lessons: ${available.join(", ") || "none"}`);
+      return;
+    }
+    if (arg === "all") {
+      state.lessons = undefined;
+    } else {
+      const resolved = resolveLessonSelectors(
+        parseList(arg),
+        await listLessonsAcross(options.collections),
+      );
+      if (resolved.errors.length > 0) {
+        resolved.errors.forEach((line) => console.error(line));
+        return;
+      }
+      state.lessons = resolved.lessons;
+    }
+    persistSettings();
+    console.log(describeFilter(state));
+  }
+
+  function setTopK(arg: string) {
+    const topK = Number.parseInt(arg, 10);
+    if (!Number.isFinite(topK) || topK <= 0) {
+      console.error("Usage: /topk <positive number>");
+      return;
+    }
+    state.topK = topK;
+    persistSettings();
+    console.log(describeFilter(state));
+  }
+
+  function saveSession(name: string) {
+    if (!name) {
+      console.error("Usage: /save <name>");
+      return;
+    }
+    if (state.session) {
+      console.log(`Already saving to session ${state.session.name}.`);
+      return;
+    }
+    if (inSessionDb(() => getChatSession(name))) {
+      console.error(
+        `Session ${name} already exists; resume it with --session ${name}.`,
+      );
+      return;
+    }
+    const session = inSessionDb(() => {
+      const created = createChatSession(name, state);
+      state.turns.forEach((turn) => insertChatTurn(created.id, turn));
+      return created;
+    });
+    state.session = session;
+    console.log(`Saved session ${name}.`);
+  }
+
+  function printSessions() {
+    const sessions = inSessionDb(() => listChatSessions());
+    if (sessions.length === 0) {
+      console.log("No saved sessions.");
+      return;
+    }
+    sessions.forEach((session) =>
+      console.log(
+        `  - ${session.name}: ${session.turns} turn(s), updated ${session.updatedAt}`,
+      ),
+    );
+  }
+
+  let activeAbort: AbortController | null = null;
+
+  async function ask(question: string) {
+    const retrievalQuery = await rewriteQuestion(
+      question,
+      state.turns,
+      options.models.answer,
+    );
+    if (retrievalQuery !== question) {
+      console.log(`(searching for: ${retrievalQuery})`);
+    }
+    const askOptions = {
+      question,
+      retrievalQuery,
+      history: state.turns,
+      topK: state.topK,
+      lessons: state.lessons,
+      speakers: options.speakers,
+      from: options.from,
+      to: options.to,
+      models: options.models,
+      collections: options.collections,
+      params: options.params,
+    };
+
+    let turn: ChatTurnRecord | null = null;
+    if (process.stdout.isTTY) {
+      activeAbort = new AbortController();
+      const stream = await streamAnswer({
+        ...askOptions,
+        abortSignal: activeAbort.signal,
+      });
+      if (stream) {
+        let answer = "";
+        try {
+          for await (const text of stream.textStream) {
+            const chunk = answer.length === 0 ? text.trimStart() : text;
+            answer += chunk;
+            process.stdout.write(chunk);
+          }
+          process.stdout.write("\n");
+        } catch (error) {
+          if (!activeAbort.signal.aborted) throw error;
+          // Interrupted answers are not kept in the history
+          process.stdout.write("\n");
+          console.error("Interrupted.");
+          return;
+        } finally {
+          activeAbort = null;
+        }
+        turn = {
+          question,
+          standaloneQuery: retrievalQuery,
+          answer: answer.trim(),
+          sources: stream.sources,
+        };
+      }
+    } else {
+      const result = await answerQuestion(askOptions);
+      if (result) {
+        console.log(result.answer);
+        turn = {
+          question,
+          standaloneQuery: retrievalQuery,
+          answer: result.answer,
+          sources: result.sources,
+        };
+      }
+    }
+
+    if (!turn) {
+      console.log("No matches found.");
+      return;
+    }
+    state.turns.push(turn);
+    const session = state.session;
+    if (session) inSessionDb(() => insertChatTurn(session.id, turn));
+    const report = verifyCitations(turn.answer, turn.sources);
+    printVerification(report);
+    console.log(
+      `(${report.cited.length} of ${turn.sources.length} source(s) cited; /sources to show)`,
+    );
+  }
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: Boolean(process.stdin.isTTY),
+  });
+  // Ctrl-C stops a streaming answer; at the prompt it quits
+  rl.on("SIGINT", () => {
+    if (activeAbort) {
+      activeAbort.abort();
+    } else {
+      rl.close();
+    }
+  });
+
+  // Queue lines ourselves: piped input can arrive (and close) while a turn runs
+  const pending: string[] = [];
+  let inputClosed = false;
+  let wake: (() => void) | null = null;
+  rl.on("line", (line) => {
+    pending.push(line);
+    wake?.();
+  });
+  rl.on("close", () => {
+    inputClosed = true;
+    wake?.();
+  });
+  const nextLine = async (): Promise<string | null> => {
+    while (pending.length === 0) {
+      if (inputClosed) return null;
+      await new Promise<void>((resolve) => (wake = resolve));
+      wake = null;
+    }
+    return pending.shift() ?? null;
+  };
+  const prompt = () => {
+    if (!inputClosed) rl.prompt();
+  };
+
+  console.log(
+    `Chatting with ${options.collections.map((collection) => collection.name).join(", ")}. ${describeFilter(state)} Type /help for commands.`,
+  );
+  rl.setPrompt("> ");
+  prompt();
+
+  for (
+    let rawLine = await nextLine();
+    rawLine !== null;
+    rawLine = await nextLine()
+  ) {
+    const line = rawLine.trim();
+    if (line.startsWith("/")) {
+      const [command = "", ...rest] = line.slice(1).split(/\s+/);
+      const arg = rest.join(" ").trim();
+      if (command === "exit" || command === "quit") break;
+      if (command === "help") console.log(HELP);
+      else if (command === "lessons") await setLessons(arg);
+      else if (command === "topk") setTopK(arg);
+      else if (command === "save") saveSession(arg);
+      else if (command === "sessions") printSessions();
+      else if (command === "sources") {
+        const last = state.turns[state.turns.length - 1];
+        if (last) {
+          const { cited } = verifyCitations(last.answer, last.sources);
+          printSources(last.sources, withCollection, cited);
+        } else console.log("No answer yet.");
+      } else if (command === "new") {
+        state.turns = [];
+        state.session = undefined;
+        console.log("Started a new conversation.");
+      } else console.error(`Unknown command /${command}. Type /help.`);
+    } else if (line.length > 0) {
+      try {
+        await ask(line);
+      } catch (error) {
+        console.error(
+          "Answer failed:",
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+    prompt();
+  }
+  rl.close();
+}
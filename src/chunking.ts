@@ -0,0 +1,265 @@
+import {
+  aggregateEntries,
+  entrySpeakers,
+  joinEntries,
+  type ChunkEntry,
+  type SrtEntry,
+} from "./srt";
+
+export const CHUNKING_STRATEGIES = ["window", "sentence", "semantic"] as const;
+
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+export type ChunkingOptions = {
+  // window: fixed windows; sentence: cut at sentence ends and pauses;
+  // semantic: cut where the topic shifts (embeds every sentence once more)
+  strategy: ChunkingStrategy;
+  // Window length, and the length sentence chunks aim for
+  windowSeconds: number;
+  // Only used by the window strategy
+  overlapSeconds: number;
+  // sentence and semantic: hard bounds on a chunk
+  minSeconds: number;
+  maxSeconds: number;
+  maxTokens: number;
+  // A silence at least this long between cues is a natural boundary
+  pauseSeconds: number;
+};
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  strategy: "window",
+  windowSeconds: 45,
+  overlapSeconds: 10,
+  minSeconds: 15,
+  maxSeconds: 90,
+  maxTokens: 512,
+  pauseSeconds: 2,
+};
+
+// Embeds sentences for the semantic strategy
+export type SentenceEmbedder = (texts: string[]) => Promise<number[][]>;
+
+const SENTENCE_END_REGEX = /[.!?…]["')\]]*$/;
+
+// Rough count for budgeting; real tokenizers average ~4 chars per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function endsSentence(entry: SrtEntry): boolean {
+  return SENTENCE_END_REGEX.test(entry.text);
+}
+
+function spanSeconds(group: SrtEntry[]): number {
+  const first = group[0];
+  const last = group[group.length - 1];
+  return first && last ? last.endSeconds - first.startSeconds : 0;
+}
+
+function toChunks(groups: SrtEntry[][]): ChunkEntry[] {
+  // Chunk indexes stay contiguous so neighbor expansion keeps working
+  const chunks: ChunkEntry[] = [];
+  for (const group of groups) {
+    const first = group[0];
+    const last = group[group.length - 1];
+    const text = joinEntries(group);
+    if (!first || !last || !text) continue;
+    chunks.push({
+      chunkIndex: chunks.length,
+      start: first.start,
+      end: last.end,
+      startSeconds: first.startSeconds,
+      endSeconds: last.endSeconds,
+      text,
+      speakers: entrySpeakers(group),
+    });
+  }
+  return chunks;
+}
+
+// Cues are never split, so chunk boundaries keep their exact timestamps
+function groupBySentences(
+  entries: SrtEntry[],
+  options: ChunkingOptions,
+): SrtEntry[][] {
+  const groups: SrtEntry[][] = [];
+  let current: SrtEntry[] = [];
+
+  for (const entry of entries) {
+    const prev = current[current.length - 1];
+    if (prev) {
+      const spoken = spanSeconds(current);
+      const pause = entry.startSeconds - prev.endSeconds;
+      const tooLong =
+        entry.endSeconds - current[0]!.startSeconds > options.maxSeconds ||
+        estimateTokens(`${joinEntries(current)} ${entry.text}`) >
+          options.maxTokens;
+
+      if (pause >= options.pauseSeconds && spoken >= options.minSeconds) {
+        groups.push(current);
+        current = [];
+      } else if (endsSentence(prev) && spoken >= options.windowSeconds) {
+        groups.push(current);
+        current = [];
+      } else if (tooLong) {
+        // Back up to the last sentence end that still leaves a full chunk
+        let cut = current.length - 1;
+        while (
+          cut > 0 &&
+          !(
+            endsSentence(current[cut]!) &&
+            spanSeconds(current.slice(0, cut + 1)) >= options.minSeconds
+          )
+        ) {
+          cut -= 1;
+        }
+        const splitAt = cut > 0 ? cut + 1 : current.length;
+        groups.push(current.slice(0, splitAt));
+        current = current.slice(splitAt);
+      }
+    }
+    current.push(entry);
+  }
+
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function groupByTopic(
+  entries: SrtEntry[],
+  options: ChunkingOptions,
+  embed: SentenceEmbedder,
+): Promise<SrtEntry[][]> {
+  // Sentences (or pause-delimited runs) are the units topics are built from
+  const units = groupBySentences(entries, {
+    ...options,
+    windowSeconds: 0,
+    minSeconds: 0,
+  });
+  if (units.length < 2) return units;
+
+  const embeddings = await embed(units.map(joinEntries));
+  const similarities = units
+    .slice(1)
+    .map((_, i) =>
+      cosineSimilarity(embeddings[i] ?? [], embeddings[i + 1] ?? []),
+    );
+  // A shift is a drop well below this lesson's typical similarity
+  const mean =
+    similarities.reduce((sum, value) => sum + value, 0) / similarities.length;
+  const deviation = Math.sqrt(
+    similarities.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+      similarities.length,
+  );
+  const threshold = mean - deviation;
+
+  const groups: SrtEntry[][] = [];
+  let current: SrtEntry[] = [...units[0]!];
+  for (let i = 1; i < units.length; i++) {
+    const unit = units[i]!;
+    const merged = [...current, ...unit];
+    const tooLong =
+      spanSeconds(merged) > options.maxSeconds ||
+      estimateTokens(joinEntries(merged)) > options.maxTokens;
+    const topicShift =
+      spanSeconds(current) >= options.minSeconds &&
+      (similarities[i - 1] ?? 1) < threshold;
+
+    if (tooLong || topicShift) {
+      groups.push(current);
+      current = [...unit];
+    } else {
+      current = merged;
+    }
+  }
+  groups.push(current);
+  return groups;
+}
+
+export async function chunkEntries(
+  entries: SrtEntry[],
+  options: ChunkingOptions,
+  embed: SentenceEmbedder,
+): Promise<ChunkEntry[]> {
+  if (options.strategy === "sentence") {
+    return toChunks(groupBySentences(entries, options));
+  }
+  if (options.strategy === "semantic") {
+    return toChunks(await groupByTopic(entries, options, embed));
+  }
+  return aggregateEntries(
+    entries,
+    options.windowSeconds,
+    options.overlapSeconds,
+  );
+}
+
+// The parameters that shape a strategy's chunks; others can change freely
+export function chunkingSignature(
+  options: ChunkingOptions,
+): Record<string, string | number> {
+  if (options.strategy === "window") {
+    return {
+      strategy: options.strategy,
+      windowSeconds: options.windowSeconds,
+      overlapSeconds: options.overlapSeconds,
+    };
+  }
+  const bounds = {
+    minSeconds: options.minSeconds,
+    maxSeconds: options.maxSeconds,
+    maxTokens: options.maxTokens,
+    pauseSeconds: options.pauseSeconds,
+  };
+  return options.strategy === "sentence"
+    ? {
+        strategy: options.strategy,
+        windowSeconds: options.windowSeconds,
+        ...bounds,
+      }
+    : { strategy: options.strategy, ...bounds };
+}
+
+// stored is the JSON recorded for a lesson at its last ingest
+export function isSameChunking(
+  stored: string | null,
+  options: ChunkingOptions,
+): boolean {
+  if (!stored) return false;
+  const previous = JSON.parse(stored) as Record<string, unknown>;
+  const current = chunkingSignature(options);
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  return Array.from(keys).every((key) => previous[key] === current[key]);
+}
+
+export function describeChunking(options: ChunkingOptions): string {
+  if (options.strategy === "window") {
+    return `${options.windowSeconds}s windows, ${options.overlapSeconds}s overlap`;
+  }
+  const bounds = `${options.minSeconds}-${options.maxSeconds}s, max ${options.maxTokens} tokens`;
+  return options.strategy === "sentence"
+    ? `sentence chunks of ~${options.windowSeconds}s (${bounds})`
+    : `semantic chunks (${bounds})`;
+}
+
+export function describeStoredChunking(stored: string | null): string {
+  if (!stored) return "unknown chunking";
+  return describeChunking({
+    ...DEFAULT_CHUNKING,
+    ...(JSON.parse(stored) as Partial<ChunkingOptions>),
+  });
+}
@@ -0,0 +1,157 @@
+import type { RetrievedChunk } from "./db";
+
+export type CitationIssueKind =
+  "no_citations" | "out_of_range" | "uncited_claim" | "unverified_quote";
+
+export type CitationIssue = {
+  kind: CitationIssueKind;
+  message: string;
+  // The cited index (out_of_range) or the sentence/quote it concerns
+  index?: number;
+  text?: string;
+};
+
+export type CitationReport = {
+  // Valid cited indexes (1-based, as in the answer), in order of first use
+  cited: number[];
+  issues: CitationIssue[];
+  grounded: boolean;
+};
+
+// [1], [1, 3], [2-4] and [1][2] are all accepted
+const CITATION_REGEX =
+  /\[(\d+(?:\s*[-–]\s*\d+)?(?:\s*,\s*\d+(?:\s*[-–]\s*\d+)?)*)\]/g;
+const QUOTE_REGEX = /"([^"\n]+)"|“([^”\n]+)”/g;
+const ABSTAIN_REGEX =
+  /\b(don't|do not|doesn't|does not) know\b|\bnot (in|covered by|mentioned in) the (context|transcripts?|excerpts?)\b/i;
+// Shorter sentences are usually connective tissue, not claims
+const MIN_CLAIM_WORDS = 6;
+const MIN_QUOTE_WORDS = 3;
+const MAX_RANGE = 50;
+
+function parseCitationGroup(group: string): number[] {
+  const indexes: number[] = [];
+  for (const part of group.split(",")) {
+    const [from, to] = part.split(/[-–]/).map((value) => Number(value.trim()));
+    if (from === undefined || !Number.isInteger(from)) continue;
+    if (to === undefined) {
+      indexes.push(from);
+    } else if (Number.isInteger(to) && to >= from && to - from <= MAX_RANGE) {
+      for (let index = from; index <= to; index++) indexes.push(index);
+    }
+  }
+  return indexes;
+}
+
+export function parseCitations(text: string): number[] {
+  return Array.from(text.matchAll(CITATION_REGEX)).flatMap((match) =>
+    parseCitationGroup(match[1] ?? ""),
+  );
+}
+
+function splitSentences(answer: string): string[] {
+  // Keep a trailing citation ("... money. [2]") with its sentence
+  return answer
+    .split(/(?<=[.!?](?:\s*\[[\d,\s–-]+\])*)\s+(?!\[\d)|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9'$%\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isClaim(sentence: string): boolean {
+  const words = sentence.replace(CITATION_REGEX, " ").trim().split(/\s+/);
+  if (words.length < MIN_CLAIM_WORDS) return false;
+  // Headings like "Key points:" introduce cited bullets
+  if (sentence.endsWith(":")) return false;
+  return !ABSTAIN_REGEX.test(sentence);
+}
+
+function quoteAppearsIn(quote: string, chunks: RetrievedChunk[]): boolean {
+  // "a ... b" elides text, so each part has to match on its own
+  const parts = quote
+    .split(/\.{3}|…/)
+    .map(normalizeForMatch)
+    .filter(Boolean);
+  return chunks.some((chunk) => {
+    const haystack = normalizeForMatch(chunk.text);
+    return parts.every((part) => haystack.includes(part));
+  });
+}
+
+export function verifyCitations(
+  answer: string,
+  sources: RetrievedChunk[],
+): CitationReport {
+  const issues: CitationIssue[] = [];
+  const cited: number[] = [];
+  const inRange = (index: number) => index >= 1 && index <= sources.length;
+
+  for (const index of parseCitations(answer)) {
+    if (!inRange(index)) {
+      if (!issues.some((issue) => issue.index === index)) {
+        issues.push({
+          kind: "out_of_range",
+          index,
+          message: `[${index}] does not match any source (1-${sources.length}).`,
+        });
+      }
+    } else if (!cited.includes(index)) {
+      cited.push(index);
+    }
+  }
+
+  if (parseCitations(answer).length === 0) {
+    if (!ABSTAIN_REGEX.test(answer)) {
+      issues.push({
+        kind: "no_citations",
+        message: "The answer cites no sources.",
+      });
+    }
+    return { cited, issues, grounded: issues.length === 0 };
+  }
+
+  for (const sentence of splitSentences(answer)) {
+    const sentenceCitations = parseCitations(sentence).filter(inRange);
+    if (parseCitations(sentence).length === 0 && isClaim(sentence)) {
+      issues.push({
+        kind: "uncited_claim",
+        text: sentence,
+        message: `No citation for: "${sentence}"`,
+      });
+    }
+
+    for (const match of sentence.matchAll(QUOTE_REGEX)) {
+      const quote = (match[1] ?? match[2] ?? "").trim();
+      if (quote.split(/\s+/).length < MIN_QUOTE_WORDS) continue;
+      // Check the sources cited alongside the quote, or all when none are
+      const candidates =
+        sentenceCitations.length > 0
+          ? sentenceCitations.map((index) => sources[index - 1]!)
+          : sources;
+      if (quoteAppearsIn(quote, candidates)) continue;
+      const elsewhere =
+        sentenceCitations.length > 0 && quoteAppearsIn(quote, sources);
+      issues.push({
+        kind: "unverified_quote",
+        text: quote,
+        message: elsewhere
+          ? `Quote "${quote}" is not in the cited source(s) but appears in another source.`
+          : `Quote "${quote}" does not appear in the sources.`,
+      });
+    }
+  }
+
+  return { cited, issues, grounded: issues.length === 0 };
+}
+
+export function describeIssues(issues: CitationIssue[]): string {
+  return issues.map((issue) => `- ${issue.message}`).join("\n");
+}
@@ -1,64 +1,409 @@
 import { Command } from "commander";
+import { createInterface } from "node:readline/promises";
 import { runIngest } from "./ingest";
-import { answerQuestion } from "./search";
-import { initDb, getAvailableLessons } from "./db";
+import { startServer } from "./server";
+import { startMcpServer } from "./mcp";
+import { runChat } from "./chat";
+import { describeIssues } from "./citations";
+import { loadEvalRun, printEvalDiff, printEvalRun, runEval } from "./eval";
+import { DEFAULT_CONFIG_PATH, loadConfig, type AppConfig } from "./config";
+import { CHUNKING_STRATEGIES, type ChunkingStrategy } from "./chunking";
+import {
+  EXIT_CODES,
+  OUTPUT_FORMATS,
+  printAnswer,
+  printAnswerStream,
+  printError,
+  printExcerpt,
+  printSearch,
+  printSourcesEvent,
+  type ErrorCode,
+  type OutputFormat,
+} from "./output";
+import { answerQuestion, searchTranscripts, streamAnswer } from "./search";
+import { DEFAULT_SHOW_WINDOW_SECONDS, readTranscriptExcerpt } from "./show";
+import { runSummarize } from "./summarize";
+import { formatTimestamp, TIMESTAMP_PATTERN, timestampToSeconds } from "./srt";
+import {
+  getLessonInfo,
+  getLessonSummaries,
+  initDb,
+  withDatabase,
+  type LessonFilter,
+  type LessonInfo,
+  type LessonSummary,
+} from "./db";
+import { getEmbeddingModelSpec } from "./embed";
+import { usesGateway } from "./providers";
+import { describeLessonFilter, resolveLessonSelectors } from "./lessons";
+import {
+  createCollection,
+  DEFAULT_COLLECTION,
+  deleteCollection,
+  getCollection,
+  listCollectionLessons,
+  listCollections,
+  filterLessonsAcross,
+  listLessonsAcross,
+  resolveTextModels,
+  withEmbeddingModel,
+  type Collection,
+} from "./collections";
 
 type CliOptions = {
   ingest?: boolean;
   force?: boolean;
+  sync?: boolean;
+  dryRun?: boolean;
   ask?: string;
   transcriptsDir?: string;
   topK?: string;
   lessons?: string;
+  course?: string;
+  module?: string;
+  tag?: string;
+  speaker?: string;
+  from?: string;
+  to?: string;
   listLessons?: boolean;
+  verbose?: boolean;
+  summarize?: boolean;
+  show?: string;
+  at?: string;
+  window?: string;
+  answerModel?: string;
+  rerankModel?: string;
+  yes?: boolean;
+  collection?: string;
+  createCollection?: string;
+  listCollections?: boolean;
+  deleteCollection?: string;
+  dbPath?: string;
+  embeddingModel?: string;
+  format?: string;
+  search?: string;
+  lexical?: boolean;
+  rerank?: boolean;
+  expand?: boolean;
+  serve?: boolean;
+  mcp?: boolean;
+  chat?: boolean;
+  strict?: boolean;
+  eval?: string;
+  evalConfig?: string;
+  evalOut?: string;
+  evalDiff?: string[];
+  session?: string;
+  port?: string;
+  host?: string;
+  config?: string;
+  chunking?: string;
+  chunkWindow?: string;
+  chunkOverlap?: string;
+  vectorLimit?: string;
+  bm25Limit?: string;
+  rerankLimit?: string;
+  rrfK?: string;
+  neighborWindow?: string;
+  batchSize?: string;
+  concurrency?: string;
+  recursive?: boolean;
+  include?: string;
+  exclude?: string;
 };
 
-function levenshteinDistance(a: string, b: string): number {
-  const aLen = a.length;
-  const bLen = b.length;
-  if (aLen === 0) return bLen;
-  if (bLen === 0) return aLen;
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+function parseList(value: string): string[] {
+  return value.split(",").map((item) => item.trim());
+}
+
+// Validation happens in loadConfig; NaN and unknown strategies are rejected there
+function parseNumber(value?: string): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+// Typos in names and flags get the message, not a stack trace; JSON formats
+// get the same error object as failures later on
+function exitWithError(
+  code: ErrorCode,
+  error: unknown,
+  format: OutputFormat,
+): never {
+  const message = error instanceof Error ? error.message : String(error);
+  process.exit(printError(code, message, format));
+}
 
-  const matrix = Array.from({ length: aLen + 1 }, () =>
-    Array.from({ length: bLen + 1 }, () => 0),
+async function resolveConfig(
+  opts: CliOptions,
+  format: OutputFormat,
+): Promise<AppConfig> {
+  try {
+    return await loadConfig(opts.config, {
+      chunking: {
+        strategy: opts.chunking as ChunkingStrategy | undefined,
+        windowSeconds: parseNumber(opts.chunkWindow),
+        overlapSeconds: parseNumber(opts.chunkOverlap),
+      },
+      retrieval: {
+        vectorLimit: parseNumber(opts.vectorLimit),
+        bm25Limit: parseNumber(opts.bm25Limit),
+        rerankLimit: parseNumber(opts.rerankLimit),
+        rrfK: parseNumber(opts.rrfK),
+        neighborWindow: parseNumber(opts.neighborWindow),
+      },
+      ingest: {
+        batchSize: parseNumber(opts.batchSize),
+        concurrency: parseNumber(opts.concurrency),
+      },
+      transcripts: {
+        recursive: opts.recursive,
+        include: opts.include ? parseList(opts.include) : undefined,
+        exclude: opts.exclude ? parseList(opts.exclude) : undefined,
+      },
+    });
+  } catch (error) {
+    exitWithError("INVALID_INPUT", error, format);
+  }
+}
+
+async function resolveCollections(
+  opts: CliOptions,
+  config: AppConfig,
+  format: OutputFormat,
+): Promise<Collection[]> {
+  const names = opts.collection
+    ? parseList(opts.collection)
+    : [DEFAULT_COLLECTION];
+  if (names.some((name) => name.length === 0)) {
+    exitWithError(
+      "INVALID_INPUT",
+      "Empty collection name provided in --collection list.",
+      format,
+    );
+  }
+  const collections = await Promise.all(
+    Array.from(new Set(names)).map(getCollection),
+  ).catch((error) => exitWithError("INVALID_INPUT", error, format));
+  // CLI flags win over per-collection settings, which win over the config
+  return collections.map((collection) =>
+    withEmbeddingModel(
+      {
+        ...collection,
+        settings: {
+          ...collection.settings,
+          embeddingModel:
+            opts.embeddingModel ?? collection.settings.embeddingModel,
+        },
+      },
+      config.models.embedding,
+    ),
   );
+}
+
+function fail(lines: string[], format: OutputFormat) {
+  if (format === "text") {
+    lines.forEach((line) => console.error(line));
+    process.exitCode = EXIT_CODES.invalidInput;
+    return;
+  }
+  process.exitCode = printError("INVALID_INPUT", lines.join("\n"), format);
+}
+
+function lessonFilter(opts: CliOptions): LessonFilter {
+  return {
+    course: opts.course,
+    module: opts.module,
+    tags: opts.tag ? parseList(opts.tag).filter(Boolean) : undefined,
+  };
+}
+
+// Seconds, [hh:]mm:ss or a duration like "60s"
+function parseSeconds(value: string): number | null {
+  const trimmed = value.trim().replace(/s$/i, "");
+  return TIMESTAMP_PATTERN.test(trimmed) ? timestampToSeconds(trimmed) : null;
+}
+
+function resolveTimeRange(
+  opts: CliOptions,
+  format: OutputFormat,
+): { ok: true; value: { from?: number; to?: number } } | { ok: false } {
+  const range: { from?: number; to?: number } = {};
+  for (const flag of ["from", "to"] as const) {
+    const raw = opts[flag];
+    if (raw === undefined) continue;
+    const seconds = parseSeconds(raw);
+    if (seconds === null) {
+      fail([`Invalid --${flag} "${raw}"; use seconds or [hh:]mm:ss.`], format);
+      return { ok: false };
+    }
+    range[flag] = seconds;
+  }
+  if (
+    range.from !== undefined &&
+    range.to !== undefined &&
+    range.to < range.from
+  ) {
+    fail(["--to must not be before --from."], format);
+    return { ok: false };
+  }
+  return { ok: true, value: range };
+}
+
+function speakerFilter(opts: CliOptions): string[] | undefined {
+  const speakers = opts.speaker ? parseList(opts.speaker).filter(Boolean) : [];
+  return speakers.length > 0 ? speakers : undefined;
+}
+
+async function resolveLessons(
+  opts: CliOptions,
+  collections: Collection[],
+  format: OutputFormat,
+): Promise<{ ok: true; value?: string[] } | { ok: false }> {
+  const lessonTokens = opts.lessons ? parseList(opts.lessons) : undefined;
+  if (lessonTokens && lessonTokens.some((lesson) => lesson.length === 0)) {
+    fail(["Empty lesson name provided in --lessons list."], format);
+    return { ok: false };
+  }
+  let lessons: string[] | undefined;
+
+  if (lessonTokens && lessonTokens.length > 0) {
+    const availableLessons = await listLessonsAcross(collections);
+    if (availableLessons.length === 0) {
+      fail(["No lessons found. Run --ingest first."], format);
+      return { ok: false };
+    }
+
+    const resolved = resolveLessonSelectors(lessonTokens, availableLessons);
+    if (resolved.errors.length > 0) {
+      fail(resolved.errors, format);
+      return { ok: false };
+    }
+    lessons = resolved.lessons;
+  }
+
+  // --course, --module and --tag narrow the lessons down further
+  const filter = lessonFilter(opts);
+  const filtered = await filterLessonsAcross(collections, lessons, filter);
+  if (filtered && filtered.length === 0) {
+    const scope = lessons ? " among --lessons" : "";
+    fail([`No lessons match ${describeLessonFilter(filter)}${scope}.`], format);
+    return { ok: false };
+  }
 
-  for (let i = 0; i <= aLen; i++) matrix[i][0] = i;
-  for (let j = 0; j <= bLen; j++) matrix[0][j] = j;
+  return { ok: true, value: filtered };
+}
 
-  for (let i = 1; i <= aLen; i++) {
-    for (let j = 1; j <= bLen; j++) {
-      const cost = a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1,
-        matrix[i][j - 1] + 1,
-        matrix[i - 1][j - 1] + cost,
+// Lessons in subfolders are listed under their folder, after top-level ones
+// Summaries and chapters are printed under each lesson when given
+function printLessonTree(
+  lessons: string[],
+  info: Map<string, LessonInfo>,
+  summaries?: Map<string, LessonSummary>,
+) {
+  const folderOf = (lesson: string) =>
+    lesson.includes("/") ? lesson.slice(0, lesson.lastIndexOf("/")) : "";
+  const sorted = [...lessons].sort(
+    (a, b) => folderOf(a).localeCompare(folderOf(b)) || a.localeCompare(b),
+  );
+  let folder = "";
+  for (const lesson of sorted) {
+    const current = folderOf(lesson);
+    if (current !== folder) {
+      console.log(`  ${current}/`);
+      folder = current;
+    }
+    const name = current
+      ? `    - ${lesson.slice(current.length + 1)}`
+      : `  - ${lesson}`;
+    console.log(`${name}${lessonDetails(info.get(lesson))}`);
+    if (summaries) {
+      const indent = " ".repeat(name.indexOf("-") + 2);
+      lessonSummaryLines(summaries.get(lesson)).forEach((line) =>
+        console.log(`${indent}${line}`),
       );
     }
   }
+}
 
-  return matrix[aLen][bLen];
+function lessonSummaryLines(summary: LessonSummary | undefined): string[] {
+  if (!summary) return ["No summary yet; run --summarize."];
+  const outdated = summary.stale
+    ? " (outdated: the transcript changed; run --summarize)"
+    : "";
+  return [
+    `${summary.summary}${outdated}`,
+    ...summary.chapters.map(
+      (chapter) => `${chapter.startTime} ${chapter.title}`,
+    ),
+  ];
 }
 
-function lessonSimilarity(a: string, b: string): number {
-  const trimmedA = a.trim();
-  const trimmedB = b.trim();
-  if (!trimmedA || !trimmedB) return 0;
-  const aLower = trimmedA.toLowerCase();
-  const bLower = trimmedB.toLowerCase();
-  if (aLower === bLower) return 1;
-  if (aLower.includes(bLower) || bLower.includes(aLower)) return 0.95;
-  const distance = levenshteinDistance(aLower, bLower);
-  return 1 - distance / Math.max(aLower.length, bLower.length);
+function lessonDetails(info: LessonInfo | undefined): string {
+  if (!info) return "";
+  const title = info.title ? ` "${info.title}"` : "";
+  const place = [info.course, info.module].filter(Boolean).join(" / ");
+  const tags = info.tags.map((tag) => ` #${tag}`).join("");
+  return `${title}${place ? ` [${place}]` : ""}${tags}`;
 }
 
-function suggestLessons(input: string, available: string[]): string[] {
-  return available
-    .map((name) => ({ name, score: lessonSimilarity(input, name) }))
-    .filter((entry) => entry.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 5)
-    .map((entry) => entry.name);
+async function printCollections(config: AppConfig) {
+  const collections = await listCollections();
+  console.log("Collections:");
+  for (const collection of collections) {
+    const lessons = (await Bun.file(collection.dbPath).exists())
+      ? (await listCollectionLessons(collection)).length
+      : 0;
+    const model = getEmbeddingModelSpec(
+      withEmbeddingModel(collection, config.models.embedding).settings
+        .embeddingModel,
+    );
+    console.log(
+      `  - ${collection.name}: ${lessons} lesson(s), transcripts ${collection.transcriptsDir}, db ${collection.dbPath}, embeddings ${model}`,
+    );
+  }
+}
+
+async function askStreaming(options: Parameters<typeof streamAnswer>[0]) {
+  const abort = new AbortController();
+  let streaming = false;
+  const onInterrupt = () => {
+    // Retrieval cannot be cancelled midway; just stop there
+    if (!streaming) {
+      console.error("\nInterrupted.");
+      process.exit(EXIT_CODES.interrupted);
+    }
+    abort.abort();
+  };
+  process.once("SIGINT", onInterrupt);
+  try {
+    const stream = await streamAnswer({
+      ...options,
+      abortSignal: abort.signal,
+    });
+    if (!stream) {
+      process.exitCode = printError("NO_MATCHES", "No matches found.", "text");
+      return;
+    }
+    streaming = true;
+    await printAnswerStream(stream);
+  } catch (error) {
+    if (!abort.signal.aborted) throw error;
+    process.stdout.write("\n");
+    console.error("Interrupted.");
+    process.exitCode = EXIT_CODES.interrupted;
+  } finally {
+    process.off("SIGINT", onInterrupt);
+  }
 }
 
 export async function runCli() {
@@ -69,93 +414,656 @@ export async function runCli() {
     .description("Transcript RAG CLI")
     .option("--ingest", "Ingest transcripts (skip processed by default)")
     .option("--force", "Re-ingest all transcripts (overrides skip)")
+    .option(
+      "--sync",
+      "Ingest, then remove lessons whose transcript is gone (renamed files keep their embeddings)",
+    )
+    .option(
+      "--dry-run",
+      "With --ingest or --sync: show what would change without changing it",
+    )
     .option("--ask <question>", "Ask a question over transcripts")
+    .option(
+      "--strict",
+      "With --ask: retry once, then fail if the answer's citations do not check out",
+    )
+    .option("--chat", "Interactive multi-turn chat over transcripts")
+    .option(
+      "--session <name>",
+      "With --chat: resume a saved session, or save under this name",
+    )
+    .option(
+      "--search <query>",
+      "Find where something was said (ranked hits, no answer generation)",
+    )
+    .option("--lexical", "With --search: keyword (BM25) only, no network")
+    .option("--rerank", "With --search: rerank hits with the rerank model")
+    .option("--expand", "With --search: include neighboring chunks")
     .option(
       "--transcripts-dir <path>",
-      "Directory containing .srt files",
-      "transcripts",
+      "Directory containing transcript files (default: the collection's, transcripts/)",
+    )
+    .option(
+      "--top-k <number>",
+      "Number of chunks to retrieve (default 25, 10 for --search)",
     )
-    .option("--top-k <number>", "Number of chunks to retrieve (default 25)")
     .option(
       "--lessons <names>",
       "Filter to specific lesson(s), comma-separated",
     )
+    .option(
+      "--course <name>",
+      "Only lessons of this course (from lesson metadata)",
+    )
+    .option(
+      "--module <name>",
+      "Only lessons of this module (from lesson metadata)",
+    )
+    .option(
+      "--tag <tags>",
+      "Only lessons with any of these tags, comma-separated",
+    )
+    .option(
+      "--speaker <names>",
+      "Only passages where any of these speakers talk, comma-separated",
+    )
+    .option(
+      "--from <time>",
+      "Only passages after this time in each lesson (seconds or [hh:]mm:ss)",
+    )
+    .option(
+      "--to <time>",
+      "Only passages before this time in each lesson (seconds or [hh:]mm:ss)",
+    )
     .option("--list-lessons", "List available lessons")
+    .option(
+      "--verbose",
+      "With --list-lessons: show each lesson's summary and chapters",
+    )
+    .option(
+      "--summarize",
+      "Summarize lessons (all, or --lessons) with the answer model and outline their chapters",
+    )
+    .option(
+      "--show <lesson>",
+      "Print the transcript of a lesson around --at, with cue timestamps",
+    )
+    .option("--at <time>", "With --show: the time to show (default 0)")
+    .option(
+      "--window <duration>",
+      `With --show: seconds shown around --at, e.g. 60s (default ${DEFAULT_SHOW_WINDOW_SECONDS})`,
+    )
+    .option(
+      "--eval <file>",
+      "Score retrieval against a golden question set (YAML or JSON)",
+    )
+    .option(
+      "--eval-config <names>",
+      "With --eval: configuration(s) to run, comma-separated (default: all)",
+    )
+    .option("--eval-out <path>", "With --eval: save the run as JSON")
+    .option(
+      "--eval-diff <runs...>",
+      "Compare two saved eval runs: --eval-diff <before.json> <after.json>",
+    )
+    .option(
+      "--serve",
+      "Start the HTTP API (ask, search, lessons, ingest) on --host/--port",
+    )
+    .option("--mcp", "Run as an MCP server over stdio (for agents)")
+    .option("--port <number>", "Port for --serve", "3000")
+    .option("--host <hostname>", "Hostname for --serve", "127.0.0.1")
+    .option(
+      "--collection <names>",
+      "Collection(s) to use, comma-separated (default: default)",
+    )
+    .option(
+      "--create-collection <name>",
+      "Create a collection (uses --transcripts-dir, --db-path and model flags)",
+    )
+    .option("--list-collections", "List collections")
+    .option(
+      "--delete-collection <name>",
+      "Delete a collection and its database (transcripts are kept)",
+    )
+    .option(
+      "--db-path <path>",
+      "Database file for --create-collection (default data/collections/<name>.db)",
+    )
+    .option(
+      "--format <format>",
+      `Output format for --ask and --search: ${OUTPUT_FORMATS.join(", ")}`,
+      "text",
+    )
+    .option("--yes", "Answer yes to prompts (e.g. rebuilding the database)")
+    .option(
+      "--config <path>",
+      `Settings file for chunking, retrieval and models (default ${DEFAULT_CONFIG_PATH} if present)`,
+    )
+    .option(
+      "--chunking <strategy>",
+      `Chunking strategy when ingesting: ${CHUNKING_STRATEGIES.join(", ")} (default window)`,
+    )
+    .option(
+      "--chunk-window <seconds>",
+      "Chunk length in seconds when ingesting (default 45)",
+    )
+    .option(
+      "--chunk-overlap <seconds>",
+      "Overlap between chunks in seconds when ingesting (default 10)",
+    )
+    .option(
+      "--recursive",
+      "Ingest subfolders too; lessons are named by relative path (e.g. course/module/lesson)",
+    )
+    .option(
+      "--include <globs>",
+      "Only ingest transcripts matching these globs, comma-separated (default **/*)",
+    )
+    .option(
+      "--exclude <globs>",
+      "Skip transcripts matching these globs, comma-separated",
+    )
+    .option(
+      "--batch-size <number>",
+      "Chunks per embedding request when ingesting (default 64)",
+    )
+    .option(
+      "--concurrency <number>",
+      "Lessons embedded in parallel when ingesting (default 2)",
+    )
+    .option(
+      "--vector-limit <number>",
+      "Candidates taken from vector search (default 50)",
+    )
+    .option(
+      "--bm25-limit <number>",
+      "Candidates taken from keyword search (default 50)",
+    )
+    .option(
+      "--rerank-limit <number>",
+      "Fused candidates sent to the reranker (default 30)",
+    )
+    .option("--rrf-k <number>", "Reciprocal rank fusion constant (default 60)")
+    .option(
+      "--neighbor-window <number>",
+      "Chunks added on each side of a hit for context (default 1)",
+    )
+    .option(
+      "--embedding-model <spec>",
+      "Embedding model: gateway id, local:<model> or offline:hash (env EMBEDDING_MODEL)",
+    )
+    .option(
+      "--answer-model <spec>",
+      "Model for answers: gateway id or local:<model> (env ANSWER_MODEL)",
+    )
+    .option(
+      "--rerank-model <spec>",
+      "Model for reranking: gateway id or local:<model> (env RERANK_MODEL)",
+    )
     .action(async (opts: CliOptions) => {
-      const hasAction = opts.ingest || opts.ask || opts.listLessons;
+      const hasAction =
+        opts.ingest ||
+        opts.sync ||
+        opts.ask ||
+        opts.chat ||
+        opts.search ||
+        opts.listLessons ||
+        opts.summarize ||
+        opts.show ||
+        opts.eval ||
+        opts.evalDiff ||
+        opts.serve ||
+        opts.mcp ||
+        opts.createCollection ||
+        opts.listCollections ||
+        opts.deleteCollection;
 
       if (!hasAction) {
         program.help();
         return;
       }
 
+      const format = opts.format as OutputFormat;
+      if (!OUTPUT_FORMATS.includes(format)) {
+        console.error(
+          `Unknown format "${opts.format}"; expected ${OUTPUT_FORMATS.join(", ")}.`,
+        );
+        process.exit(EXIT_CODES.invalidInput);
+      }
+
+      const config = await resolveConfig(opts, format);
+
+      if (opts.createCollection) {
+        const collection = await createCollection({
+          name: opts.createCollection,
+          transcriptsDir: opts.transcriptsDir,
+          dbPath: opts.dbPath,
+          settings: {
+            embeddingModel: opts.embeddingModel,
+            answerModel: opts.answerModel,
+            rerankModel: opts.rerankModel,
+          },
+        }).catch((error) => exitWithError("INVALID_INPUT", error, format));
+        console.log(
+          `Created collection ${collection.name} (transcripts ${collection.transcriptsDir}, db ${collection.dbPath}).`,
+        );
+        return;
+      }
+
+      if (opts.deleteCollection) {
+        const name = opts.deleteCollection;
+        const confirmed =
+          opts.yes ||
+          (await confirm(`Delete collection ${name} and its database?`));
+        if (!confirmed) {
+          console.error("Aborted; pass --yes to delete without prompting.");
+          process.exit(1);
+        }
+        const collection = await deleteCollection(name).catch((error) =>
+          exitWithError("INVALID_INPUT", error, format),
+        );
+        console.log(
+          `Deleted collection ${name} (${collection.dbPath}); transcripts in ${collection.transcriptsDir} were kept.`,
+        );
+        return;
+      }
+
+      if (opts.listCollections) {
+        await printCollections(config);
+        return;
+      }
+
+      if (opts.evalDiff) {
+        if (opts.evalDiff.length !== 2) {
+          console.error("--eval-diff takes two run files: <before> <after>.");
+          process.exit(EXIT_CODES.invalidInput);
+        }
+        const [before, after] = await Promise.all(
+          opts.evalDiff.map(loadEvalRun),
+        ).catch((error) => exitWithError("INVALID_INPUT", error, "text"));
+        printEvalDiff(before!, after!);
+        return;
+      }
+
+      const collections = await resolveCollections(opts, config, format);
+      for (const collection of collections) {
+        await withDatabase(collection.dbPath, () =>
+          initDb({
+            confirmRebuild: async (reason) =>
+              opts.yes ||
+              confirm(
+                `${reason} Back it up and rebuild it? All data is cleared.`,
+              ),
+          }),
+        );
+      }
+
       if (opts.listLessons) {
-        await initDb();
-        const lessons = getAvailableLessons();
-        if (lessons.length === 0) {
-          console.log("No lessons found. Run --ingest first.");
-        } else {
-          console.log("Available lessons:");
-          lessons.forEach((l) => console.log(`  - ${l}`));
+        // --lessons (e.g. a folder) and the metadata filters narrow the list
+        const selected = await resolveLessons(opts, collections, "text");
+        if (!selected.ok) return;
+        for (const collection of collections) {
+          const lessons = (await listCollectionLessons(collection)).filter(
+            (lesson) => !selected.value || selected.value.includes(lesson),
+          );
+          const [info, summaries] = await withDatabase(
+            collection.dbPath,
+            () =>
+              [
+                getLessonInfo(lessons),
+                opts.verbose ? getLessonSummaries(lessons) : undefined,
+              ] as const,
+          );
+          const scope = collections.length > 1 ? ` in ${collection.name}` : "";
+          if (lessons.length === 0) {
+            console.log(
+              selected.value
+                ? `No matching lessons${scope}.`
+                : `No lessons found${scope}. Run --ingest first.`,
+            );
+          } else {
+            console.log(`Available lessons${scope}:`);
+            printLessonTree(lessons, info, summaries);
+          }
         }
         return;
       }
 
-      const apiKey = process.env.AI_GATEWAY_API_KEY;
-      if (!apiKey) {
-        console.error("AI_GATEWAY_API_KEY is required.");
-        process.exit(1);
+      if (opts.show) {
+        const at = parseSeconds(opts.at ?? "0");
+        const windowSeconds = parseSeconds(
+          opts.window ?? String(DEFAULT_SHOW_WINDOW_SECONDS),
+        );
+        if (at === null) {
+          fail(
+            [`Invalid --at "${opts.at}"; use seconds or [hh:]mm:ss.`],
+            format,
+          );
+          return;
+        }
+        if (windowSeconds === null || windowSeconds <= 0) {
+          fail(
+            [`Invalid --window "${opts.window}"; use seconds, e.g. 60s.`],
+            format,
+          );
+          return;
+        }
+
+        const available = await listLessonsAcross(collections);
+        if (available.length === 0) {
+          fail(["No lessons found. Run --ingest first."], format);
+          return;
+        }
+        const resolved = resolveLessonSelectors([opts.show], available);
+        if (resolved.errors.length > 0) {
+          fail(resolved.errors, format);
+          return;
+        }
+        // A folder selects several lessons; --show reads one
+        const [lesson, ...others] = resolved.lessons;
+        if (!lesson || others.length > 0) {
+          fail(
+            [
+              `"${opts.show}" matches several lessons: ${resolved.lessons.join(", ")}`,
+            ],
+            format,
+          );
+          return;
+        }
+
+        let collection = collections[0]!;
+        for (const candidate of collections) {
+          if ((await listCollectionLessons(candidate)).includes(lesson)) {
+            collection = candidate;
+            break;
+          }
+        }
+        try {
+          const excerpt = await readTranscriptExcerpt({
+            collection,
+            lesson,
+            transcriptsDir: opts.transcriptsDir ?? collection.transcriptsDir,
+            at,
+            windowSeconds,
+          });
+          if (excerpt.cues.length === 0) {
+            process.exitCode = printError(
+              "NO_MATCHES",
+              `Nothing was said in ${lesson} between ${formatTimestamp(excerpt.from)} and ${formatTimestamp(excerpt.to)}.`,
+              format,
+            );
+            return;
+          }
+          printExcerpt(excerpt, format);
+        } catch (error) {
+          process.exitCode = printError(
+            "ERROR",
+            error instanceof Error ? error.message : String(error),
+            format,
+          );
+        }
+        return;
       }
 
-      if (opts.ingest) {
-        await runIngest({
-          transcriptsDir: opts.transcriptsDir ?? "transcripts",
-          force: Boolean(opts.force),
-        });
+      if (opts.eval) {
+        // Eval checks its own models: configurations can override them
+        const run = await runEval({
+          file: opts.eval,
+          collections,
+          configNames: opts.evalConfig ? parseList(opts.evalConfig) : undefined,
+          baseline: config,
+        }).catch((error) => exitWithError("ERROR", error, format));
+        if (opts.evalOut) {
+          await Bun.write(opts.evalOut, `${JSON.stringify(run, null, 2)}\n`);
+          console.error(`Saved eval run to ${opts.evalOut}.`);
+        }
+        if (format === "text") {
+          printEvalRun(run);
+        } else {
+          process.stdout.write(`${JSON.stringify(run)}\n`);
+        }
+        return;
       }
 
-      if (opts.ask) {
-        const topK = opts.topK ? Number.parseInt(opts.topK, 10) : 25;
-        const lessonTokens = opts.lessons
-          ? opts.lessons.split(",").map((l) => l.trim())
-          : undefined;
-        if (
-          lessonTokens &&
-          lessonTokens.some((lesson) => lesson.length === 0)
-        ) {
-          console.error("Empty lesson name provided in --lessons list.");
+      const models = resolveTextModels(
+        collections,
+        { answer: opts.answerModel, rerank: opts.rerankModel },
+        config.models,
+      );
+      // Lexical search is the only action that needs no model at all
+      const needsEmbeddings =
+        ((opts.ingest || opts.sync) && !opts.dryRun) ||
+        opts.ask ||
+        opts.chat ||
+        opts.serve ||
+        opts.mcp ||
+        (opts.search && !opts.lexical);
+      const modelSpecs = needsEmbeddings
+        ? collections.map((collection) =>
+            getEmbeddingModelSpec(collection.settings.embeddingModel),
+          )
+        : [];
+      if (opts.ask || opts.chat || opts.serve || opts.mcp)
+        modelSpecs.push(models.answer, models.rerank);
+      if (opts.search && opts.rerank) modelSpecs.push(models.rerank);
+      if (opts.summarize) modelSpecs.push(models.answer);
+      const needsGateway = usesGateway(modelSpecs);
+      if (
+        needsGateway &&
+        !process.env.AI_GATEWAY_API_KEY &&
+        (opts.serve || opts.mcp)
+      ) {
+        // Lexical search and lesson listing still work without a key
+        console.warn(
+          "AI_GATEWAY_API_KEY is not set; only lexical search and lesson lookups will work.",
+        );
+      } else if (needsGateway && !process.env.AI_GATEWAY_API_KEY) {
+        exitWithError(
+          "ERROR",
+          "AI_GATEWAY_API_KEY is required for gateway models (use local: or offline: models to run without it).",
+          format,
+        );
+      }
+
+      if (opts.ingest || opts.sync) {
+        // Outdated summaries are refreshed only when the answer model can run
+        const summaryModel =
+          usesGateway([models.answer]) && !process.env.AI_GATEWAY_API_KEY
+            ? undefined
+            : models.answer;
+        if (opts.transcriptsDir && collections.length > 1) {
+          console.error(
+            "--transcripts-dir can only be used with a single collection.",
+          );
           process.exit(1);
         }
-        const lessons =
-          lessonTokens && lessonTokens.length > 0 ? lessonTokens : undefined;
-        if (lessons && lessons.length > 0) {
-          await initDb();
-          const availableLessons = getAvailableLessons();
-          if (availableLessons.length === 0) {
-            console.error("No lessons found. Run --ingest first.");
-            process.exit(1);
+        for (const collection of collections) {
+          if (collections.length > 1) {
+            console.log(`Collection ${collection.name}:`);
           }
+          const summary = await withDatabase(collection.dbPath, () =>
+            runIngest({
+              transcriptsDir: opts.transcriptsDir ?? collection.transcriptsDir,
+              force: Boolean(opts.force),
+              prune: Boolean(opts.sync),
+              dryRun: Boolean(opts.dryRun),
+              embeddingModel: collection.settings.embeddingModel,
+              chunking: config.chunking,
+              batching: config.ingest,
+              selection: config.transcripts,
+              summaryModel,
+            }),
+          );
+          if (summary.failed > 0 || summary.summariesFailed > 0) {
+            process.exitCode = EXIT_CODES.error;
+          }
+        }
+      }
 
-          const invalid = lessons.filter(
-            (lesson) => !availableLessons.includes(lesson),
+      if (opts.summarize) {
+        const selected = await resolveLessons(opts, collections, "text");
+        if (!selected.ok) return;
+        for (const collection of collections) {
+          const lessons = (await listCollectionLessons(collection)).filter(
+            (lesson) => !selected.value || selected.value.includes(lesson),
           );
+          if (lessons.length === 0) continue;
+          if (collections.length > 1) {
+            console.log(`Collection ${collection.name}:`);
+          }
+          const result = await withDatabase(collection.dbPath, () =>
+            runSummarize({
+              lessons,
+              model: models.answer,
+              force: Boolean(opts.force),
+            }),
+          );
+          if (result.failed > 0) process.exitCode = EXIT_CODES.error;
+        }
+      }
+
+      if (opts.search) {
+        const topK = opts.topK ? Number.parseInt(opts.topK, 10) : 10;
+        const lessons = await resolveLessons(opts, collections, format);
+        if (!lessons.ok) return;
+        const range = resolveTimeRange(opts, format);
+        if (!range.ok) return;
 
-          if (invalid.length > 0) {
-            console.error(`Unknown lesson(s): ${invalid.join(", ")}`);
-            invalid.forEach((lesson) => {
-              const suggestions = suggestLessons(lesson, availableLessons);
-              if (suggestions.length > 0) {
-                console.error(`Did you mean: ${suggestions.join(", ")}?`);
-              }
-            });
-            process.exit(1);
+        try {
+          const result = await searchTranscripts({
+            query: opts.search,
+            topK: Number.isFinite(topK) && topK > 0 ? topK : 10,
+            lessons: lessons.value,
+            speakers: speakerFilter(opts),
+            ...range.value,
+            collections,
+            lexical: opts.lexical,
+            rerankModel: opts.rerank ? models.rerank : undefined,
+            expand: opts.expand,
+            params: config.retrieval,
+          });
+          if (result.hits.length === 0) {
+            process.exitCode = printError(
+              "NO_MATCHES",
+              "No matches found.",
+              format,
+            );
+            return;
           }
+          printSearch(result, format);
+        } catch (error) {
+          if (format === "text") throw error;
+          process.exitCode = printError(
+            "ERROR",
+            error instanceof Error ? error.message : String(error),
+            format,
+          );
         }
-        await answerQuestion({
+      }
+
+      if (opts.ask) {
+        const topK = opts.topK ? Number.parseInt(opts.topK, 10) : 25;
+        const lessons = await resolveLessons(opts, collections, format);
+        if (!lessons.ok) return;
+        const range = resolveTimeRange(opts, format);
+        if (!range.ok) return;
+
+        const askOptions = {
           question: opts.ask,
-          transcriptsDir: opts.transcriptsDir ?? "transcripts",
           topK: Number.isFinite(topK) && topK > 0 ? topK : 25,
-          lessons,
+          lessons: lessons.value,
+          speakers: speakerFilter(opts),
+          ...range.value,
+          models,
+          collections,
+          strict: opts.strict,
+          params: config.retrieval,
+        };
+
+        // Stream tokens to a terminal; json, jsonl, pipes and --strict
+        // get the full (verified) answer
+        if (format === "text" && process.stdout.isTTY && !opts.strict) {
+          await askStreaming(askOptions);
+          return;
+        }
+
+        try {
+          const result = await answerQuestion({
+            ...askOptions,
+            onSources: (sources) => printSourcesEvent(sources, format),
+          });
+          if (!result) {
+            process.exitCode = printError(
+              "NO_MATCHES",
+              "No matches found.",
+              format,
+            );
+            return;
+          }
+          if (opts.strict && !result.verification.grounded) {
+            process.exitCode = printError(
+              "UNGROUNDED",
+              `The answer failed the citation check:\n${describeIssues(result.verification.issues)}`,
+              format,
+            );
+            return;
+          }
+          printAnswer(result, format);
+        } catch (error) {
+          if (format === "text") throw error;
+          process.exitCode = printError(
+            "ERROR",
+            error instanceof Error ? error.message : String(error),
+            format,
+          );
+        }
+      }
+
+      if (opts.chat) {
+        const topK = opts.topK ? Number.parseInt(opts.topK, 10) : 25;
+        const lessons = await resolveLessons(opts, collections, "text");
+        if (!lessons.ok) return;
+        const range = resolveTimeRange(opts, "text");
+        if (!range.ok) return;
+        await runChat({
+          collections,
+          models,
+          topK: Number.isFinite(topK) && topK > 0 ? topK : 25,
+          lessons: lessons.value,
+          speakers: speakerFilter(opts),
+          ...range.value,
+          session: opts.session,
+          params: config.retrieval,
+        });
+      }
+
+      if (opts.serve) {
+        const port = Number.parseInt(opts.port ?? "", 10);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          console.error(`Invalid --port "${opts.port}".`);
+          process.exit(EXIT_CODES.invalidInput);
+        }
+        await startServer({
+          port,
+          hostname: opts.host ?? "127.0.0.1",
+          collections,
+          modelOverrides: {
+            answer: opts.answerModel,
+            rerank: opts.rerankModel,
+          },
+          config,
+        });
+      }
+
+      if (opts.mcp) {
+        await startMcpServer({
+          collections,
+          modelOverrides: {
+            answer: opts.answerModel,
+            rerank: opts.rerankModel,
+          },
+          config,
         });
       }
     });
@@ -0,0 +1,222 @@
+import { mkdir, rm } from "node:fs/promises";
+import { dirname } from "node:path";
+import { z } from "zod";
+import {
+  findLessons,
+  getAvailableLessons,
+  initDb,
+  withDatabase,
+  type LessonFilter,
+} from "./db";
+import { getTextModels, type TextModels } from "./providers";
+
+export const DEFAULT_COLLECTION = "default";
+
+const REGISTRY_PATH = "data/collections.json";
+const COLLECTION_NAME_REGEX = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+const settingsSchema = z.object({
+  embeddingModel: z.string().optional(),
+  answerModel: z.string().optional(),
+  rerankModel: z.string().optional(),
+});
+
+const collectionSchema = z.object({
+  transcriptsDir: z.string(),
+  dbPath: z.string(),
+  settings: settingsSchema.default({}),
+  createdAt: z.string(),
+});
+
+const registrySchema = z.record(z.string(), collectionSchema);
+
+export type CollectionSettings = z.infer<typeof settingsSchema>;
+
+export type Collection = z.infer<typeof collectionSchema> & {
+  name: string;
+};
+
+// The implicit collection keeps the original single-index layout working
+const defaultCollection: Collection = {
+  name: DEFAULT_COLLECTION,
+  transcriptsDir: "transcripts",
+  dbPath: "data/transcript-rag.db",
+  settings: {},
+  createdAt: "",
+};
+
+type Registry = z.infer<typeof registrySchema>;
+
+async function readRegistry(): Promise<Registry> {
+  const file = Bun.file(REGISTRY_PATH);
+  if (!(await file.exists())) return {};
+  const parsed = registrySchema.safeParse(await file.json());
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid collection registry ${REGISTRY_PATH}: ${parsed.error.message}`,
+    );
+  }
+  return parsed.data;
+}
+
+async function writeRegistry(registry: Registry) {
+  await mkdir(dirname(REGISTRY_PATH), { recursive: true });
+  await Bun.write(REGISTRY_PATH, `${JSON.stringify(registry, null, 2)}\n`);
+}
+
+export async function listCollections(): Promise<Collection[]> {
+  const registry = await readRegistry();
+  const named = Object.entries(registry)
+    .map(([name, entry]) => ({ ...entry, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [defaultCollection, ...named];
+}
+
+export async function getCollection(name: string): Promise<Collection> {
+  const collections = await listCollections();
+  const collection = collections.find((entry) => entry.name === name);
+  if (!collection) {
+    const known = collections.map((entry) => entry.name).join(", ");
+    throw new Error(`Unknown collection "${name}". Known: ${known}.`);
+  }
+  return collection;
+}
+
+export async function createCollection(input: {
+  name: string;
+  transcriptsDir?: string;
+  dbPath?: string;
+  settings?: CollectionSettings;
+}): Promise<Collection> {
+  if (!COLLECTION_NAME_REGEX.test(input.name)) {
+    throw new Error(
+      `Invalid collection name "${input.name}": use letters, digits, "-" or "_".`,
+    );
+  }
+  if (input.name === DEFAULT_COLLECTION) {
+    throw new Error(`"${DEFAULT_COLLECTION}" is reserved.`);
+  }
+
+  const registry = await readRegistry();
+  if (registry[input.name]) {
+    throw new Error(`Collection "${input.name}" already exists.`);
+  }
+
+  const entry = {
+    transcriptsDir: input.transcriptsDir ?? `transcripts/${input.name}`,
+    dbPath: input.dbPath ?? `data/collections/${input.name}.db`,
+    settings: input.settings ?? {},
+    createdAt: new Date().toISOString(),
+  };
+  const clash = Object.entries(registry).find(
+    ([, existing]) => existing.dbPath === entry.dbPath,
+  );
+  if (clash || entry.dbPath === defaultCollection.dbPath) {
+    throw new Error(
+      `Database ${entry.dbPath} is already used by a collection.`,
+    );
+  }
+
+  registry[input.name] = entry;
+  await writeRegistry(registry);
+  return { ...entry, name: input.name };
+}
+
+export async function deleteCollection(name: string): Promise<Collection> {
+  if (name === DEFAULT_COLLECTION) {
+    throw new Error(
+      `The "${DEFAULT_COLLECTION}" collection cannot be deleted.`,
+    );
+  }
+  const registry = await readRegistry();
+  const entry = registry[name];
+  if (!entry) {
+    throw new Error(`Unknown collection "${name}".`);
+  }
+
+  delete registry[name];
+  await writeRegistry(registry);
+  // Transcripts are user content and stay; only the index is removed
+  for (const suffix of ["", "-wal", "-shm"]) {
+    await rm(`${entry.dbPath}${suffix}`, { force: true });
+  }
+  return { ...entry, name };
+}
+
+export async function listCollectionLessons(
+  collection: Collection,
+): Promise<string[]> {
+  return withDatabase(collection.dbPath, async () => {
+    await initDb();
+    return getAvailableLessons();
+  });
+}
+
+export async function listLessonsAcross(
+  collections: Collection[],
+): Promise<string[]> {
+  const lessons = await Promise.all(collections.map(listCollectionLessons));
+  return Array.from(new Set(lessons.flat())).sort();
+}
+
+export function hasLessonFilter(filter: LessonFilter): boolean {
+  return Boolean(filter.course || filter.module || filter.tags?.length);
+}
+
+// Narrows the requested lessons (all when none were named) to those whose
+// metadata matches; an empty result means nothing matched
+export async function filterLessonsAcross(
+  collections: Collection[],
+  lessons: string[] | undefined,
+  filter: LessonFilter,
+): Promise<string[] | undefined> {
+  if (!hasLessonFilter(filter)) return lessons;
+  const matched = new Set<string>();
+  for (const collection of collections) {
+    const names = await withDatabase(collection.dbPath, async () => {
+      await initDb();
+      return findLessons(filter);
+    });
+    names.forEach((name) => matched.add(name));
+  }
+  return Array.from(matched).filter(
+    (name) => !lessons || lessons.includes(name),
+  );
+}
+
+// Looks up collections by name and opens (migrating if needed) their databases
+export async function openCollections(names: string[]): Promise<Collection[]> {
+  const collections: Collection[] = [];
+  for (const name of new Set(names)) {
+    const collection = await getCollection(name);
+    await withDatabase(collection.dbPath, () => initDb());
+    collections.push(collection);
+  }
+  return collections;
+}
+
+// Collections without their own embedding model use the configured one
+export function withEmbeddingModel(
+  collection: Collection,
+  embeddingModel: string | undefined,
+): Collection {
+  if (collection.settings.embeddingModel || !embeddingModel) return collection;
+  return {
+    ...collection,
+    settings: { ...collection.settings, embeddingModel },
+  };
+}
+
+// Flags win over collection settings, which win over the config file's models
+export function resolveTextModels(
+  collections: Collection[],
+  overrides: Partial<TextModels>,
+  configured: Partial<TextModels> = {},
+): TextModels {
+  // Per-collection model settings only apply when a single collection is used
+  const [only] = collections.length === 1 ? collections : [];
+  return getTextModels({
+    answer: overrides.answer ?? only?.settings.answerModel ?? configured.answer,
+    rerank: overrides.rerank ?? only?.settings.rerankModel ?? configured.rerank,
+  });
+}
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import {
+  CHUNKING_STRATEGIES,
+  DEFAULT_CHUNKING,
+  type ChunkingOptions,
+} from "./chunking";
+import {
+  DEFAULT_INGEST_BATCHING,
+  DEFAULT_TRANSCRIPT_SELECTION,
+  type IngestBatching,
+  type TranscriptSelection,
+} from "./ingest";
+import { DEFAULT_RETRIEVAL_PARAMS, type RetrievalParams } from "./search";
+
+export const DEFAULT_CONFIG_PATH = "transcript-rag.config.json";
+
+const positiveInt = z.number().int().positive();
+const modelSpec = z.string().min(1);
+
+export const chunkingFields = z
+  .object({
+    strategy: z.enum(CHUNKING_STRATEGIES),
+    windowSeconds: z.number().positive(),
+    overlapSeconds: z.number().nonnegative(),
+    minSeconds: z.number().nonnegative(),
+    maxSeconds: z.number().positive(),
+    maxTokens: positiveInt,
+    pauseSeconds: z.number().positive(),
+  })
+  .strict();
+
+const chunkingSchema = chunkingFields
+  .refine((chunking) => chunking.overlapSeconds < chunking.windowSeconds, {
+    message: "overlapSeconds must be smaller than windowSeconds",
+    path: ["overlapSeconds"],
+  })
+  .refine((chunking) => chunking.minSeconds <= chunking.maxSeconds, {
+    message: "minSeconds must not exceed maxSeconds",
+    path: ["minSeconds"],
+  });
+
+const retrievalSchema = z
+  .object({
+    vectorLimit: positiveInt,
+    bm25Limit: positiveInt,
+    rerankLimit: positiveInt,
+    rrfK: z.number().positive(),
+    neighborWindow: z.number().int().nonnegative(),
+  })
+  .strict();
+
+const ingestSchema = z
+  .object({
+    batchSize: positiveInt,
+    concurrency: positiveInt,
+    maxRetries: z.number().int().nonnegative(),
+  })
+  .strict();
+
+const transcriptsSchema = z
+  .object({
+    recursive: z.boolean(),
+    include: z.array(z.string().min(1)).min(1),
+    exclude: z.array(z.string().min(1)),
+  })
+  .strict();
+
+const modelsSchema = z
+  .object({
+    embedding: modelSpec,
+    answer: modelSpec,
+    rerank: modelSpec,
+  })
+  .partial()
+  .strict();
+
+// Every section and key is optional; missing values fall back to defaults
+const fileSchema = z
+  .object({
+    chunking: chunkingFields.partial().optional(),
+    retrieval: retrievalSchema.partial().optional(),
+    ingest: ingestSchema.partial().optional(),
+    transcripts: transcriptsSchema.partial().optional(),
+    models: modelsSchema.optional(),
+  })
+  .strict();
+
+export type AppConfig = {
+  chunking: ChunkingOptions;
+  retrieval: RetrievalParams;
+  ingest: IngestBatching;
+  transcripts: TranscriptSelection;
+  // Below CLI flags and collection settings, above the environment
+  models: z.infer<typeof modelsSchema>;
+};
+
+export type ConfigOverrides = {
+  chunking?: Partial<ChunkingOptions>;
+  retrieval?: Partial<RetrievalParams>;
+  ingest?: Partial<IngestBatching>;
+  transcripts?: Partial<TranscriptSelection>;
+};
+
+export type LoadedConfig = AppConfig & {
+  // The file the values came from, or null when only defaults apply
+  path: string | null;
+};
+
+function withoutUndefined<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value ?? {}).filter(([, entry]) => entry !== undefined),
+  ) as Partial<T>;
+}
+
+export async function loadConfig(
+  path?: string,
+  overrides: ConfigOverrides = {},
+): Promise<LoadedConfig> {
+  const configPath = path ?? DEFAULT_CONFIG_PATH;
+  const file = Bun.file(configPath);
+  let fromFile: z.infer<typeof fileSchema> = {};
+  let loadedPath: string | null = null;
+
+  if (await file.exists()) {
+    let raw: unknown;
+    try {
+      raw = await file.json();
+    } catch (error) {
+      throw new Error(
+        `Could not parse config ${configPath}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    const parsed = fileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid config ${configPath}:\n${z.prettifyError(parsed.error)}`,
+      );
+    }
+    fromFile = parsed.data;
+    loadedPath = configPath;
+  } else if (path) {
+    // The default file is optional; one that was asked for is not
+    throw new Error(`Config file not found: ${configPath}`);
+  }
+
+  const chunking = chunkingSchema.safeParse({
+    ...DEFAULT_CHUNKING,
+    ...fromFile.chunking,
+    ...withoutUndefined(overrides.chunking),
+  });
+  if (!chunking.success) {
+    throw new Error(`Invalid chunking:\n${z.prettifyError(chunking.error)}`);
+  }
+  const retrieval = retrievalSchema.safeParse({
+    ...DEFAULT_RETRIEVAL_PARAMS,
+    ...fromFile.retrieval,
+    ...withoutUndefined(overrides.retrieval),
+  });
+  if (!retrieval.success) {
+    throw new Error(`Invalid retrieval:\n${z.prettifyError(retrieval.error)}`);
+  }
+
+  const ingest = ingestSchema.safeParse({
+    ...DEFAULT_INGEST_BATCHING,
+    ...fromFile.ingest,
+    ...withoutUndefined(overrides.ingest),
+  });
+  if (!ingest.success) {
+    throw new Error(`Invalid ingest:\n${z.prettifyError(ingest.error)}`);
+  }
+
+  const transcripts = transcriptsSchema.safeParse({
+    ...DEFAULT_TRANSCRIPT_SELECTION,
+    ...fromFile.transcripts,
+    ...withoutUndefined(overrides.transcripts),
+  });
+  if (!transcripts.success) {
+    throw new Error(
+      `Invalid transcripts:\n${z.prettifyError(transcripts.error)}`,
+    );
+  }
+
+  return {
+    chunking: chunking.data,
+    retrieval: retrieval.data,
+    ingest: ingest.data,
+    transcripts: transcripts.data,
+    models: fromFile.models ?? {},
+    path: loadedPath,
+  };
+}
@@ -1,5 +1,9 @@
 import { Database } from "bun:sqlite";
+import { AsyncLocalStorage } from "node:async_hooks";
 import { existsSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { migrate, tableExists } from "./migrations";
 
 export type ChunkRecord = {
   lessonName: string;
@@ -9,16 +13,31 @@ export type ChunkRecord = {
   startSeconds: number;
   endSeconds: number;
   text: string;
+  speakers: string[];
 };
 
 export type RetrievedChunk = ChunkRecord & {
   id: number;
+  // Set when results from several collections are combined
+  collection?: string;
   distance?: number;
   bm25?: number;
+  rrfScore?: number;
+  rerankScore?: number;
+  // Pulled in by neighbor expansion rather than matched directly
+  neighbor?: boolean;
+  // From the lesson's metadata, when it has any
+  title?: string;
+  url?: string;
 };
 
-export const EMBEDDING_DIMENSIONS = 1024;
-const SCHEMA_VERSION = 3;
+export type EmbeddingSpace = {
+  provider: string;
+  model: string;
+  dimensions: number;
+};
+
+const DEFAULT_DB_PATH = "data/transcript-rag.db";
 
 const SQLITE_CANDIDATES = [
   "/opt/homebrew/opt/sqlite/lib/libsqlite3.dylib", // Apple Silicon Homebrew
@@ -34,8 +53,12 @@ function trySetCustomSQLite() {
   }
 }
 
-let db: Database | null = null;
-let initialized = false;
+// Each collection has its own database file. The active one is scoped with
+// withDatabase() so concurrent work on different collections never mixes.
+const dbContext = new AsyncLocalStorage<string>();
+const pendingDatabases = new Map<string, Promise<Database>>();
+const openDatabases = new Map<string, Database>();
+let customSQLiteChecked = false;
 let sqliteVecModule: typeof import("sqlite-vec") | null = null;
 
 async function loadSqliteVec() {
@@ -45,17 +68,25 @@ async function loadSqliteVec() {
   return sqliteVecModule;
 }
 
-async function getDb() {
-  if (db) return db;
-  trySetCustomSQLite();
-  db = new Database("data/transcript-rag.db");
-  return db;
+function currentDbPath(): string {
+  return dbContext.getStore() ?? DEFAULT_DB_PATH;
+}
+
+export function withDatabase<T>(dbPath: string, fn: () => T): T {
+  return dbContext.run(dbPath, fn);
 }
 
-export async function initDb() {
-  if (initialized && db) return db;
+export type InitDbOptions = {
+  confirmRebuild?: (reason: string) => Promise<boolean>;
+};
 
-  const database = await getDb();
+async function openDb(dbPath: string, options: InitDbOptions) {
+  if (!customSQLiteChecked) {
+    trySetCustomSQLite();
+    customSQLiteChecked = true;
+  }
+  await mkdir(dirname(dbPath), { recursive: true });
+  const database = new Database(dbPath);
 
   try {
     const sqliteVec = await loadSqliteVec();
@@ -70,90 +101,493 @@ export async function initDb() {
     PRAGMA foreign_keys = ON;
   `);
 
-  const versionRow = database.prepare("PRAGMA user_version").get() as
-    | { user_version: number }
-    | undefined;
-  const currentVersion = versionRow?.user_version ?? 0;
+  await migrate(database, {
+    dbPath,
+    confirmRebuild: options.confirmRebuild,
+  });
+  reportIndexProblems(database, dbPath);
 
-  if (currentVersion !== SCHEMA_VERSION) {
-    if (currentVersion !== 0) {
-      console.warn(
-        "Database schema changed; existing data will be cleared. Re-ingest transcripts.",
-      );
-    }
+  openDatabases.set(dbPath, database);
+  return database;
+}
+
+export async function initDb(options: InitDbOptions = {}) {
+  const dbPath = currentDbPath();
+  let pending = pendingDatabases.get(dbPath);
+  if (!pending) {
+    pending = openDb(dbPath, options);
+    pendingDatabases.set(dbPath, pending);
+    pending.catch(() => pendingDatabases.delete(dbPath));
+  }
+  return pending;
+}
+
+export function closeDb(dbPath: string) {
+  openDatabases.get(dbPath)?.close();
+  openDatabases.delete(dbPath);
+  pendingDatabases.delete(dbPath);
+}
+
+function ensureDb(): Database {
+  const database = openDatabases.get(currentDbPath());
+  if (!database) {
+    throw new Error("Database not initialized. Call initDb() first.");
+  }
+  return database;
+}
+
+function readEmbeddingSpace(database: Database): EmbeddingSpace | null {
+  const rows = database
+    .prepare("SELECT key, value FROM index_meta WHERE key LIKE 'embedding_%'")
+    .all() as { key: string; value: string }[];
+  const meta = new Map(rows.map((row) => [row.key, row.value]));
+  const provider = meta.get("embedding_provider");
+  const model = meta.get("embedding_model");
+  const dimensions = Number(meta.get("embedding_dimensions"));
+  if (!provider || !model || !Number.isFinite(dimensions)) return null;
+  return { provider, model, dimensions };
+}
+
+function writeEmbeddingSpace(database: Database, space: EmbeddingSpace) {
+  const stmt = database.prepare(
+    "INSERT OR REPLACE INTO index_meta (key, value) VALUES (?, ?)",
+  );
+  stmt.run("embedding_provider", space.provider);
+  stmt.run("embedding_model", space.model);
+  stmt.run("embedding_dimensions", String(space.dimensions));
+}
+
+function describeSpace(space: EmbeddingSpace): string {
+  return `${space.model} (${space.provider}, ${space.dimensions} dims)`;
+}
+
+export function getEmbeddingSpace(): EmbeddingSpace | null {
+  return readEmbeddingSpace(ensureDb());
+}
+
+export function isSameEmbeddingSpace(
+  a: EmbeddingSpace,
+  b: EmbeddingSpace,
+): boolean {
+  return (
+    a.provider === b.provider &&
+    a.model === b.model &&
+    a.dimensions === b.dimensions
+  );
+}
+
+export function assertEmbeddingSpace(space: EmbeddingSpace) {
+  const stored = getEmbeddingSpace();
+  if (!stored || isSameEmbeddingSpace(stored, space)) return;
+  throw new Error(
+    `Index embeddings were created with ${describeSpace(stored)}, but the configured embedding model is ${describeSpace(space)}. ` +
+      "Switch EMBEDDING_MODEL back, or re-ingest with --force to rebuild the index with the new model.",
+  );
+}
+
+export function ensureEmbeddingSpace(space: EmbeddingSpace) {
+  const database = ensureDb();
+  assertEmbeddingSpace(space);
+  if (getEmbeddingSpace()) return;
+
+  database.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS vec_chunks USING vec0(
+      chunk_id INTEGER PRIMARY KEY,
+      embedding float[${space.dimensions}]
+    );
+  `);
+  writeEmbeddingSpace(database, space);
+}
+
+export function resetEmbeddingSpace(space: EmbeddingSpace) {
+  // Vectors from different models are not comparable, so every chunk goes
+  const database = ensureDb();
+  const reset = database.transaction(() => {
     database.exec(`
-      DROP TABLE IF EXISTS chunks_fts;
       DROP TABLE IF EXISTS vec_chunks;
-      DROP TABLE IF EXISTS chunks;
-      DROP TABLE IF EXISTS processed_files;
+      DELETE FROM chunks_fts;
+      DELETE FROM chunks;
+      DELETE FROM processed_files;
+      DELETE FROM staged_lessons;
+      DELETE FROM index_meta WHERE key LIKE 'embedding_%';
     `);
+  });
+  reset();
+  ensureEmbeddingSpace(space);
+}
 
-    database.exec(`
-      CREATE TABLE processed_files (
-        id INTEGER PRIMARY KEY,
-        filename TEXT UNIQUE,
-        processed_at TEXT,
-        mtime INTEGER,
-        size INTEGER
-      );
+function embeddingToBuffer(embedding: number[]): Buffer {
+  const space = getEmbeddingSpace();
+  if (!space) {
+    throw new Error("No embedding model recorded for this index.");
+  }
+  if (embedding.length !== space.dimensions) {
+    throw new Error(
+      `Embedding length ${embedding.length} does not match expected ${space.dimensions}`,
+    );
+  }
+  return Buffer.from(Float32Array.from(embedding).buffer);
+}
 
-      CREATE TABLE chunks (
-        id INTEGER PRIMARY KEY,
-        lesson_name TEXT,
-        chunk_index INTEGER,
-        start_time TEXT,
-        end_time TEXT,
-        start_seconds REAL,
-        end_seconds REAL,
-        text TEXT
-      );
+export type FileFingerprint = {
+  mtime: number;
+  size: number;
+  // sha256 of the file content; null for lessons ingested before it was kept
+  contentHash: string | null;
+};
 
-      CREATE VIRTUAL TABLE vec_chunks USING vec0(
-        chunk_id INTEGER PRIMARY KEY,
-        embedding float[${EMBEDDING_DIMENSIONS}]
-      );
+export type ProcessedInfo = FileFingerprint & {
+  // JSON of the chunking parameters used; null for lessons ingested before
+  // they were recorded
+  chunking: string | null;
+};
 
-      CREATE VIRTUAL TABLE chunks_fts USING fts5(
-        chunk_id UNINDEXED,
-        lesson_name UNINDEXED,
-        text
-      );
-    `);
+type FingerprintRow = {
+  mtime: number;
+  size: number;
+  content_hash: string | null;
+  chunking: string | null;
+};
 
-    database.exec(`PRAGMA user_version = ${SCHEMA_VERSION};`);
-  }
+function toFingerprint(row: FingerprintRow): ProcessedInfo {
+  return {
+    mtime: Number(row.mtime),
+    size: Number(row.size),
+    contentHash: row.content_hash,
+    chunking: row.chunking,
+  };
+}
 
-  initialized = true;
-  return database;
+export function getProcessedInfo(filename: string): ProcessedInfo | null {
+  const database = ensureDb();
+  const row = database
+    .prepare(
+      "SELECT mtime, size, content_hash, chunking FROM processed_files WHERE filename = ? LIMIT 1",
+    )
+    .get(filename) as FingerprintRow | undefined;
+  return row ? toFingerprint(row) : null;
 }
 
-function ensureDb(): Database {
-  if (!db) {
-    throw new Error("Database not initialized. Call initDb() first.");
-  }
-  return db;
+export function recordProcessed(
+  filename: string,
+  fingerprint: FileFingerprint,
+  chunking: string,
+) {
+  const database = ensureDb();
+  database
+    .prepare(
+      "INSERT OR REPLACE INTO processed_files (filename, processed_at, mtime, size, content_hash, chunking) VALUES (?, ?, ?, ?, ?, ?)",
+    )
+    .run(
+      filename,
+      new Date().toISOString(),
+      fingerprint.mtime,
+      fingerprint.size,
+      fingerprint.contentHash,
+      chunking,
+    );
 }
 
-export function getProcessedInfo(
+// Lets an unchanged lesson skip ingest without a new fingerprint, e.g. after
+// a touch or a checkout that only changed the mtime
+export function updateFingerprint(
   filename: string,
-): { mtime: number; size: number } | null {
+  fingerprint: FileFingerprint,
+) {
+  const database = ensureDb();
+  database
+    .prepare(
+      "UPDATE processed_files SET mtime = ?, size = ?, content_hash = ? WHERE filename = ?",
+    )
+    .run(
+      fingerprint.mtime,
+      fingerprint.size,
+      fingerprint.contentHash,
+      filename,
+    );
+}
+
+// A lesson being (re-)ingested: its new chunks are staged next to the live
+// ones and only replace them once every chunk has been embedded
+export type StagedLesson = ProcessedInfo & {
+  // Chunk indexes already embedded, e.g. by an interrupted ingest
+  chunkIndexes: Set<number>;
+};
+
+export function getStagedLesson(lessonName: string): StagedLesson | null {
   const database = ensureDb();
   const row = database
     .prepare(
-      "SELECT mtime, size FROM processed_files WHERE filename = ? LIMIT 1",
+      "SELECT mtime, size, content_hash, chunking FROM staged_lessons WHERE lesson_name = ?",
     )
-    .get(filename) as { mtime: number; size: number } | undefined;
+    .get(lessonName) as FingerprintRow | undefined;
   if (!row) return null;
-  return { mtime: Number(row.mtime), size: Number(row.size) };
+  const indexes = database
+    .prepare("SELECT chunk_index FROM staged_chunks WHERE lesson_name = ?")
+    .all(lessonName) as { chunk_index: number }[];
+  return {
+    ...toFingerprint(row),
+    chunkIndexes: new Set(indexes.map((entry) => entry.chunk_index)),
+  };
 }
 
-export function recordProcessed(filename: string, mtime: number, size: number) {
+export function startStagedLesson(
+  lessonName: string,
+  fingerprint: FileFingerprint,
+  chunking: string,
+) {
   const database = ensureDb();
+  // Replacing the row drops chunks staged for an older version of the file
+  database
+    .prepare("DELETE FROM staged_lessons WHERE lesson_name = ?")
+    .run(lessonName);
   database
     .prepare(
-      "INSERT OR REPLACE INTO processed_files (filename, processed_at, mtime, size) VALUES (?, ?, ?, ?)",
+      "INSERT INTO staged_lessons (lesson_name, mtime, size, content_hash, chunking, started_at) VALUES (?, ?, ?, ?, ?, ?)",
+    )
+    .run(
+      lessonName,
+      fingerprint.mtime,
+      fingerprint.size,
+      fingerprint.contentHash,
+      chunking,
+      new Date().toISOString(),
+    );
+}
+
+export function stageChunks(chunks: ChunkRecord[], embeddings: number[][]) {
+  if (chunks.length !== embeddings.length) {
+    throw new Error(
+      `Got ${embeddings.length} embeddings for ${chunks.length} chunks.`,
+    );
+  }
+  const database = ensureDb();
+  const stmt = database.prepare(
+    `INSERT OR REPLACE INTO staged_chunks (
+      lesson_name,
+      chunk_index,
+      start_time,
+      end_time,
+      start_seconds,
+      end_seconds,
+      text,
+      speakers,
+      embedding
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const stage = database.transaction(() => {
+    chunks.forEach((chunk, idx) => {
+      stmt.run(
+        chunk.lessonName,
+        chunk.chunkIndex,
+        chunk.startTime,
+        chunk.endTime,
+        chunk.startSeconds,
+        chunk.endSeconds,
+        chunk.text,
+        JSON.stringify(chunk.speakers),
+        embeddingToBuffer(embeddings[idx]!),
+      );
+    });
+  });
+  stage();
+}
+
+// Swaps the staged chunks in for the lesson's current ones in one transaction
+export function commitStagedLesson(lessonName: string) {
+  const database = ensureDb();
+  const commit = database.transaction(() => {
+    const staged = database
+      .prepare(
+        "SELECT mtime, size, content_hash, chunking FROM staged_lessons WHERE lesson_name = ?",
+      )
+      .get(lessonName) as FingerprintRow | undefined;
+    if (!staged) {
+      throw new Error(`No staged ingest for lesson "${lessonName}".`);
+    }
+    const rows = database
+      .prepare(
+        `SELECT chunk_index, start_time, end_time, start_seconds, end_seconds, text, speakers, embedding
+         FROM staged_chunks WHERE lesson_name = ? ORDER BY chunk_index`,
+      )
+      .all(lessonName) as {
+      chunk_index: number;
+      start_time: string;
+      end_time: string;
+      start_seconds: number;
+      end_seconds: number;
+      text: string;
+      speakers: string;
+      embedding: Uint8Array;
+    }[];
+
+    deleteByLesson(lessonName);
+    const vecStmt = database.prepare(
+      "INSERT INTO vec_chunks (chunk_id, embedding) VALUES (?, ?)",
+    );
+    for (const row of rows) {
+      const chunkId = insertChunk({
+        lessonName,
+        chunkIndex: row.chunk_index,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        startSeconds: row.start_seconds,
+        endSeconds: row.end_seconds,
+        text: row.text,
+        speakers: JSON.parse(row.speakers) as string[],
+      });
+      vecStmt.run(chunkId, row.embedding);
+    }
+    recordProcessed(lessonName, toFingerprint(staged), staged.chunking ?? "");
+    database
+      .prepare("DELETE FROM staged_lessons WHERE lesson_name = ?")
+      .run(lessonName);
+  });
+  commit();
+}
+
+// Document embeddings keyed by model and chunk text, so unchanged chunks of an
+// edited transcript are not embedded again
+export function getCachedEmbeddings(
+  space: EmbeddingSpace,
+  textHashes: string[],
+): Map<string, number[]> {
+  const database = ensureDb();
+  const stmt = database.prepare(
+    "SELECT embedding FROM embedding_cache WHERE provider = ? AND model = ? AND dimensions = ? AND text_hash = ?",
+  );
+  const cached = new Map<string, number[]>();
+  for (const hash of new Set(textHashes)) {
+    const row = stmt.get(
+      space.provider,
+      space.model,
+      space.dimensions,
+      hash,
+    ) as { embedding: Uint8Array } | undefined;
+    if (!row) continue;
+    const floats = new Float32Array(
+      row.embedding.buffer,
+      row.embedding.byteOffset,
+      row.embedding.byteLength / 4,
+    );
+    cached.set(hash, Array.from(floats));
+  }
+  return cached;
+}
+
+export function cacheEmbeddings(
+  space: EmbeddingSpace,
+  textHashes: string[],
+  embeddings: number[][],
+) {
+  const database = ensureDb();
+  const stmt = database.prepare(
+    "INSERT OR REPLACE INTO embedding_cache (provider, model, dimensions, text_hash, embedding) VALUES (?, ?, ?, ?, ?)",
+  );
+  const store = database.transaction(() => {
+    textHashes.forEach((hash, idx) => {
+      const embedding = embeddings[idx];
+      if (!embedding) return;
+      stmt.run(
+        space.provider,
+        space.model,
+        space.dimensions,
+        hash,
+        embeddingToBuffer(embedding),
+      );
+    });
+  });
+  store();
+}
+
+export type IndexProblem = {
+  lessonName: string;
+  message: string;
+};
+
+// Lessons whose chunks, vectors, FTS rows and processed record disagree
+function findIndexProblems(database: Database): IndexProblem[] {
+  const problems: IndexProblem[] = [];
+  const add = (rows: { lesson_name: string; n: number }[], what: string) =>
+    rows.forEach((row) =>
+      problems.push({
+        lessonName: row.lesson_name,
+        message: `${row.n} ${what}`,
+      }),
+    );
+
+  add(
+    database
+      .prepare(
+        `SELECT lesson_name, COUNT(*) AS n FROM chunks
+         WHERE lesson_name NOT IN (SELECT filename FROM processed_files)
+         GROUP BY lesson_name`,
+      )
+      .all() as { lesson_name: string; n: number }[],
+    "chunk(s) but no completed ingest",
+  );
+  add(
+    database
+      .prepare(
+        `SELECT lesson_name, COUNT(*) AS n FROM chunks
+         WHERE id NOT IN (SELECT chunk_id FROM chunks_fts)
+         GROUP BY lesson_name`,
+      )
+      .all() as { lesson_name: string; n: number }[],
+    "chunk(s) missing from the keyword index",
+  );
+  if (tableExists(database, "vec_chunks")) {
+    add(
+      database
+        .prepare(
+          `SELECT lesson_name, COUNT(*) AS n FROM chunks
+           WHERE id NOT IN (SELECT chunk_id FROM vec_chunks)
+           GROUP BY lesson_name`,
+        )
+        .all() as { lesson_name: string; n: number }[],
+      "chunk(s) without an embedding",
+    );
+  }
+  const empty = database
+    .prepare(
+      `SELECT filename FROM processed_files
+       WHERE filename NOT IN (SELECT lesson_name FROM chunks)`,
     )
-    .run(filename, new Date().toISOString(), mtime, size);
+    .all() as { filename: string }[];
+  empty.forEach((row) =>
+    problems.push({
+      lessonName: row.filename,
+      message: "no chunks although it was ingested",
+    }),
+  );
+  return problems;
+}
+
+export function checkIndex(): IndexProblem[] {
+  return findIndexProblems(ensureDb());
+}
+
+function reportIndexProblems(database: Database, dbPath: string) {
+  const problems = findIndexProblems(database);
+  if (problems.length > 0) {
+    console.warn(
+      `Index check (${dbPath}): incomplete lesson(s) found; run --ingest to rebuild them.`,
+    );
+    const byLesson = Map.groupBy(problems, (problem) => problem.lessonName);
+    for (const [lessonName, entries] of byLesson) {
+      console.warn(
+        `  - ${lessonName}: ${entries.map((entry) => entry.message).join(", ")}`,
+      );
+    }
+  }
+  const staged = database
+    .prepare("SELECT COUNT(*) AS n FROM staged_lessons")
+    .get() as { n: number };
+  if (staged.n > 0) {
+    console.warn(
+      `Index check (${dbPath}): ${staged.n} interrupted ingest(s); run --ingest to resume.`,
+    );
+  }
 }
 
 export function deleteByLesson(lessonName: string) {
@@ -164,7 +598,7 @@ export function deleteByLesson(lessonName: string) {
 
   const chunkIds = ids.map((row) => row.id);
 
-  if (chunkIds.length > 0) {
+  if (chunkIds.length > 0 && tableExists(database, "vec_chunks")) {
     const placeholders = chunkIds.map(() => "?").join(",");
     database
       .prepare(`DELETE FROM vec_chunks WHERE chunk_id IN (${placeholders})`)
@@ -180,6 +614,82 @@ export function deleteByLesson(lessonName: string) {
     .run(lessonName);
 }
 
+// Every lesson with something stored: chunks, an ingest record or staged work
+export function listStoredLessons(): {
+  lessonName: string;
+  contentHash: string | null;
+}[] {
+  const database = ensureDb();
+  const rows = database
+    .prepare(
+      `SELECT names.lesson_name, processed.content_hash
+       FROM (
+         SELECT lesson_name FROM chunks
+         UNION SELECT filename FROM processed_files
+         UNION SELECT lesson_name FROM staged_lessons
+       ) AS names
+       LEFT JOIN processed_files AS processed
+         ON processed.filename = names.lesson_name
+       ORDER BY names.lesson_name`,
+    )
+    .all() as { lesson_name: string; content_hash: string | null }[];
+  return rows.map((row) => ({
+    lessonName: row.lesson_name,
+    contentHash: row.content_hash,
+  }));
+}
+
+// Moves a lesson to a new name, keeping its chunks and embeddings
+export function renameLesson(from: string, to: string) {
+  const database = ensureDb();
+  const rename = database.transaction(() => {
+    database
+      .prepare("UPDATE chunks SET lesson_name = ? WHERE lesson_name = ?")
+      .run(to, from);
+    database
+      .prepare("UPDATE chunks_fts SET lesson_name = ? WHERE lesson_name = ?")
+      .run(to, from);
+    database
+      .prepare("UPDATE processed_files SET filename = ? WHERE filename = ?")
+      .run(to, from);
+    database.prepare("DELETE FROM lessons WHERE lesson_name = ?").run(to);
+    database
+      .prepare("UPDATE lessons SET lesson_name = ? WHERE lesson_name = ?")
+      .run(to, from);
+    database
+      .prepare("DELETE FROM lesson_summaries WHERE lesson_name = ?")
+      .run(to);
+    database
+      .prepare(
+        "UPDATE lesson_summaries SET lesson_name = ? WHERE lesson_name = ?",
+      )
+      .run(to, from);
+    // Staged work under either name belongs to a file version that is gone
+    database
+      .prepare("DELETE FROM staged_lessons WHERE lesson_name IN (?, ?)")
+      .run(from, to);
+  });
+  rename();
+}
+
+// Drops everything stored for a lesson, including unfinished ingests
+export function removeLesson(lessonName: string) {
+  const database = ensureDb();
+  const remove = database.transaction(() => {
+    deleteByLesson(lessonName);
+    database
+      .prepare("DELETE FROM staged_lessons WHERE lesson_name = ?")
+      .run(lessonName);
+    database
+      .prepare("DELETE FROM lessons WHERE lesson_name = ?")
+      .run(lessonName);
+    database
+      .prepare("DELETE FROM lesson_summaries WHERE lesson_name = ?")
+      .run(lessonName);
+  });
+  remove();
+}
+
 export function insertChunk(chunk: ChunkRecord): number {
   const database = ensureDb();
   const stmt = database.prepare(
@@ -190,8 +700,9 @@ export function insertChunk(chunk: ChunkRecord): number {
       end_time,
       start_seconds,
       end_seconds,
-      text
-    ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      text,
+      speakers
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
   );
   const ftsStmt = database.prepare(
     "INSERT INTO chunks_fts (chunk_id, lesson_name, text) VALUES (?, ?, ?)",
@@ -206,6 +717,7 @@ export function insertChunk(chunk: ChunkRecord): number {
       record.startSeconds,
       record.endSeconds,
       record.text,
+      JSON.stringify(record.speakers),
     );
     const chunkId = Number(result.lastInsertRowid);
     ftsStmt.run(chunkId, record.lessonName, record.text);
@@ -215,152 +727,171 @@ export function insertChunk(chunk: ChunkRecord): number {
   return insert(chunk);
 }
 
-export function insertEmbedding(chunkId: number, embedding: number[]) {
-  if (embedding.length !== EMBEDDING_DIMENSIONS) {
-    throw new Error(
-      `Embedding length ${embedding.length} does not match expected ${EMBEDDING_DIMENSIONS}`,
+// Narrows vector and keyword matches; unset fields match everything
+export type ChunkFilter = {
+  lessons?: string[];
+  // Any of these, case-insensitively
+  speakers?: string[];
+  // Seconds into each lesson; chunks overlapping [from, to] match
+  from?: number;
+  to?: number;
+};
+
+type ChunkRow = Omit<RetrievedChunk, "speakers"> & { speakers: string };
+
+const CHUNK_COLUMNS = `
+  c.id as id,
+  c.lesson_name as lessonName,
+  c.chunk_index as chunkIndex,
+  c.start_time as startTime,
+  c.end_time as endTime,
+  c.start_seconds as startSeconds,
+  c.end_seconds as endSeconds,
+  c.text as text,
+  c.speakers as speakers`;
+
+function toRetrievedChunks(rows: ChunkRow[]): RetrievedChunk[] {
+  return rows.map((row) => ({
+    ...row,
+    speakers: JSON.parse(row.speakers) as string[],
+  }));
+}
+
+function isFiltered(filter: ChunkFilter): boolean {
+  return Boolean(
+    filter.lessons?.length ||
+    filter.speakers?.length ||
+    filter.from !== undefined ||
+    filter.to !== undefined,
+  );
+}
+
+function chunkFilterClauses(filter: ChunkFilter): {
+  sql: string;
+  params: (string | number)[];
+} {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.lessons?.length) {
+    clauses.push(
+      `AND c.lesson_name IN (${filter.lessons.map(() => "?").join(",")})`,
     );
+    params.push(...filter.lessons);
   }
-
-  const buffer = Buffer.from(Float32Array.from(embedding).buffer);
-  const database = ensureDb();
-  database
-    .prepare("INSERT INTO vec_chunks (chunk_id, embedding) VALUES (?, ?)")
-    .run(chunkId, buffer);
+  if (filter.speakers?.length) {
+    clauses.push(
+      `AND EXISTS (SELECT 1 FROM json_each(c.speakers) WHERE lower(value) IN (${filter.speakers.map(() => "?").join(",")}))`,
+    );
+    params.push(...filter.speakers.map((speaker) => speaker.toLowerCase()));
+  }
+  if (filter.from !== undefined) {
+    clauses.push("AND c.end_seconds >= ?");
+    params.push(filter.from);
+  }
+  if (filter.to !== undefined) {
+    clauses.push("AND c.start_seconds <= ?");
+    params.push(filter.to);
+  }
+  return { sql: clauses.join("\n"), params };
 }
 
 export function queryVectorSimilar(
   embedding: number[],
   limit: number,
-  lessonNames?: string[],
+  filter: ChunkFilter = {},
 ): RetrievedChunk[] {
-  if (embedding.length !== EMBEDDING_DIMENSIONS) {
-    throw new Error(
-      `Embedding length ${embedding.length} does not match expected ${EMBEDDING_DIMENSIONS}`,
-    );
-  }
-
-  const buffer = Buffer.from(Float32Array.from(embedding).buffer);
   const database = ensureDb();
-
-  if (lessonNames && lessonNames.length > 0) {
-    const candidateLimit = limit * 10;
-    const placeholders = lessonNames.map(() => "?").join(",");
-    const rows = database
-      .prepare(
-        `
-        SELECT
-          c.id as id,
-          c.lesson_name as lessonName,
-          c.chunk_index as chunkIndex,
-          c.start_time as startTime,
-          c.end_time as endTime,
-          c.start_seconds as startSeconds,
-          c.end_seconds as endSeconds,
-          c.text as text,
-          distance
-        FROM vec_chunks
-        JOIN chunks c ON c.id = vec_chunks.chunk_id
-        WHERE embedding MATCH ?
-          AND k = ?
-          AND c.lesson_name IN (${placeholders})
-        ORDER BY distance
-        LIMIT ?
-      `,
-      )
-      .all(buffer, candidateLimit, ...lessonNames, limit) as RetrievedChunk[];
-    return rows;
-  }
+  if (!getEmbeddingSpace()) return [];
+  const buffer = embeddingToBuffer(embedding);
+  // Filtering happens after the KNN search, so over-fetch candidates
+  const candidateLimit = isFiltered(filter) ? limit * 10 : limit;
+  const where = chunkFilterClauses(filter);
 
   const rows = database
     .prepare(
       `
-      SELECT
-        c.id as id,
-        c.lesson_name as lessonName,
-        c.chunk_index as chunkIndex,
-        c.start_time as startTime,
-        c.end_time as endTime,
-        c.start_seconds as startSeconds,
-        c.end_seconds as endSeconds,
-        c.text as text,
+      SELECT ${CHUNK_COLUMNS},
         distance
       FROM vec_chunks
       JOIN chunks c ON c.id = vec_chunks.chunk_id
       WHERE embedding MATCH ?
         AND k = ?
+        ${where.sql}
       ORDER BY distance
       LIMIT ?
     `,
     )
-    .all(buffer, limit, limit) as RetrievedChunk[];
+    .all(buffer, candidateLimit, ...where.params, limit) as ChunkRow[];
+  return toRetrievedChunks(rows);
+}
+
+// Markers wrapped around matched terms in snippets; the output layer
+// renders them (ANSI colors, markdown bold, ...)
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
 
-  return rows;
+function buildFtsQuery(query: string, operator: "AND" | "OR" = "AND") {
+  const cleaned = query.replace(/[^A-Za-z0-9_]+/g, " ").trim();
+  if (!cleaned) return null;
+  const tokens = cleaned.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+  return tokens
+    .map((token) => `"${token.replace(/"/g, '""')}"`)
+    .join(operator === "OR" ? " OR " : " ");
+}
+
+export function getSnippets(
+  query: string,
+  chunkIds: number[],
+): Map<number, string> {
+  const database = ensureDb();
+  // Any matching term is worth highlighting, so terms are ORed here
+  const ftsQuery = buildFtsQuery(query, "OR");
+  if (!ftsQuery || chunkIds.length === 0) return new Map();
+  const placeholders = chunkIds.map(() => "?").join(",");
+  const rows = database
+    .prepare(
+      `
+      SELECT
+        chunk_id as chunkId,
+        snippet(chunks_fts, 2, ?, ?, '…', 32) as snippet
+      FROM chunks_fts
+      WHERE chunks_fts MATCH ?
+        AND chunk_id IN (${placeholders})
+    `,
+    )
+    .all(HIGHLIGHT_START, HIGHLIGHT_END, ftsQuery, ...chunkIds) as {
+    chunkId: number;
+    snippet: string;
+  }[];
+  return new Map(rows.map((row) => [Number(row.chunkId), row.snippet]));
 }
 
 export function queryBm25(
   query: string,
   limit: number,
-  lessonNames?: string[],
+  filter: ChunkFilter = {},
 ): RetrievedChunk[] {
   const database = ensureDb();
-  const cleaned = query.replace(/[^A-Za-z0-9_]+/g, " ").trim();
-  if (!cleaned) return [];
-  const tokens = cleaned.split(/\s+/).filter(Boolean);
-  if (tokens.length === 0) return [];
-  const ftsQuery = tokens
-    .map((token) => `"${token.replace(/"/g, '""')}"`)
-    .join(" ");
-
-  if (lessonNames && lessonNames.length > 0) {
-    const placeholders = lessonNames.map(() => "?").join(",");
-    const rows = database
-      .prepare(
-        `
-        SELECT
-          c.id as id,
-          c.lesson_name as lessonName,
-          c.chunk_index as chunkIndex,
-          c.start_time as startTime,
-          c.end_time as endTime,
-          c.start_seconds as startSeconds,
-          c.end_seconds as endSeconds,
-          c.text as text,
-          bm25(chunks_fts) as bm25
-        FROM chunks_fts
-        JOIN chunks c ON c.id = chunks_fts.chunk_id
-        WHERE chunks_fts MATCH ?
-          AND c.lesson_name IN (${placeholders})
-        ORDER BY bm25
-        LIMIT ?
-      `,
-      )
-      .all(ftsQuery, ...lessonNames, limit) as RetrievedChunk[];
-    return rows;
-  }
+  const ftsQuery = buildFtsQuery(query);
+  if (!ftsQuery) return [];
+  const where = chunkFilterClauses(filter);
 
   const rows = database
     .prepare(
       `
-      SELECT
-        c.id as id,
-        c.lesson_name as lessonName,
-        c.chunk_index as chunkIndex,
-        c.start_time as startTime,
-        c.end_time as endTime,
-        c.start_seconds as startSeconds,
-        c.end_seconds as endSeconds,
-        c.text as text,
+      SELECT ${CHUNK_COLUMNS},
         bm25(chunks_fts) as bm25
       FROM chunks_fts
       JOIN chunks c ON c.id = chunks_fts.chunk_id
       WHERE chunks_fts MATCH ?
+        ${where.sql}
       ORDER BY bm25
       LIMIT ?
     `,
     )
-    .all(ftsQuery, limit) as RetrievedChunk[];
-  return rows;
+    .all(ftsQuery, ...where.params, limit) as ChunkRow[];
+  return toRetrievedChunks(rows);
 }
 
 export function getChunksByLessonAndIndexes(
@@ -373,23 +904,40 @@ export function getChunksByLessonAndIndexes(
   const rows = database
     .prepare(
       `
-      SELECT
-        id as id,
-        lesson_name as lessonName,
-        chunk_index as chunkIndex,
-        start_time as startTime,
-        end_time as endTime,
-        start_seconds as startSeconds,
-        end_seconds as endSeconds,
-        text as text
-      FROM chunks
+      SELECT ${CHUNK_COLUMNS}
+      FROM chunks c
       WHERE lesson_name = ?
         AND chunk_index IN (${placeholders})
       ORDER BY chunk_index
     `,
     )
-    .all(lessonName, ...indexes) as RetrievedChunk[];
-  return rows;
+    .all(lessonName, ...indexes) as ChunkRow[];
+  return toRetrievedChunks(rows);
+}
+
+export function getLessonChunks(
+  lessonName: string,
+  // Only chunks overlapping [startSeconds, endSeconds] when set
+  range?: { startSeconds: number; endSeconds: number },
+): RetrievedChunk[] {
+  const database = ensureDb();
+  const rows = database
+    .prepare(
+      `
+      SELECT ${CHUNK_COLUMNS}
+      FROM chunks c
+      WHERE lesson_name = ?
+        AND end_seconds >= ?
+        AND start_seconds <= ?
+      ORDER BY chunk_index
+    `,
+    )
+    .all(
+      lessonName,
+      range?.startSeconds ?? 0,
+      range?.endSeconds ?? Number.MAX_SAFE_INTEGER,
+    ) as ChunkRow[];
+  return toRetrievedChunks(rows);
 }
 
 export function getAvailableLessons(): string[] {
@@ -399,3 +947,347 @@ export function getAvailableLessons(): string[] {
     .all() as { lesson_name: string }[];
   return rows.map((r) => r.lesson_name);
 }
+
+export type LessonInfo = {
+  lessonName: string;
+  title: string | null;
+  course: string | null;
+  module: string | null;
+  order: number | null;
+  tags: string[];
+  // URL template with {seconds} and {lesson} placeholders
+  videoUrl: string | null;
+};
+
+export type LessonFilter = {
+  course?: string;
+  module?: string;
+  // Lessons with any of these tags
+  tags?: string[];
+};
+
+type LessonRow = {
+  lesson_name: string;
+  title: string | null;
+  course: string | null;
+  module: string | null;
+  sort_order: number | null;
+  tags: string;
+  video_url: string | null;
+};
+
+function toLessonInfo(row: LessonRow): LessonInfo {
+  return {
+    lessonName: row.lesson_name,
+    title: row.title,
+    course: row.course,
+    module: row.module,
+    order: row.sort_order,
+    tags: JSON.parse(row.tags) as string[],
+    videoUrl: row.video_url,
+  };
+}
+
+export function saveLessonInfo(info: LessonInfo) {
+  const database = ensureDb();
+  database
+    .prepare(
+      `INSERT OR REPLACE INTO lessons
+        (lesson_name, title, course, module, sort_order, tags, video_url, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      info.lessonName,
+      info.title,
+      info.course,
+      info.module,
+      info.order,
+      JSON.stringify(info.tags),
+      info.videoUrl,
+      new Date().toISOString(),
+    );
+}
+
+export function getLessonInfo(lessonNames: string[]): Map<string, LessonInfo> {
+  const database = ensureDb();
+  if (lessonNames.length === 0) return new Map();
+  const placeholders = lessonNames.map(() => "?").join(",");
+  const rows = database
+    .prepare(
+      `SELECT lesson_name, title, course, module, sort_order, tags, video_url
+       FROM lessons WHERE lesson_name IN (${placeholders})`,
+    )
+    .all(...lessonNames) as LessonRow[];
+  return new Map(rows.map((row) => [row.lesson_name, toLessonInfo(row)]));
+}
+
+// Ingested lessons whose metadata matches; names are compared case-insensitively
+export function findLessons(filter: LessonFilter): string[] {
+  const database = ensureDb();
+  const conditions = [
+    "EXISTS (SELECT 1 FROM chunks c WHERE c.lesson_name = l.lesson_name)",
+  ];
+  const params: string[] = [];
+  if (filter.course) {
+    conditions.push("l.course = ? COLLATE NOCASE");
+    params.push(filter.course);
+  }
+  if (filter.module) {
+    conditions.push("l.module = ? COLLATE NOCASE");
+    params.push(filter.module);
+  }
+  if (filter.tags && filter.tags.length > 0) {
+    const placeholders = filter.tags.map(() => "?").join(",");
+    conditions.push(
+      `EXISTS (SELECT 1 FROM json_each(l.tags) WHERE lower(value) IN (${placeholders}))`,
+    );
+    params.push(...filter.tags.map((tag) => tag.toLowerCase()));
+  }
+  const rows = database
+    .prepare(
+      `SELECT l.lesson_name FROM lessons l
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY l.course, l.module, l.sort_order, l.lesson_name`,
+    )
+    .all(...params) as { lesson_name: string }[];
+  return rows.map((row) => row.lesson_name);
+}
+
+export type Chapter = {
+  startSeconds: number;
+  startTime: string;
+  title: string;
+};
+
+export type LessonSummary = {
+  lessonName: string;
+  summary: string;
+  chapters: Chapter[];
+  model: string;
+  // The transcript changed since it was summarized
+  stale: boolean;
+};
+
+type SummaryRow = {
+  lesson_name: string;
+  summary: string;
+  chapters: string;
+  model: string;
+  stale: number;
+};
+
+// The lesson's current content hash is recorded with the summary
+export function saveLessonSummary(summary: Omit<LessonSummary, "stale">) {
+  const database = ensureDb();
+  database
+    .prepare(
+      `INSERT OR REPLACE INTO lesson_summaries
+        (lesson_name, summary, chapters, model, content_hash, created_at)
+       VALUES (?, ?, ?, ?,
+        (SELECT content_hash FROM processed_files WHERE filename = ?), ?)`,
+    )
+    .run(
+      summary.lessonName,
+      summary.summary,
+      JSON.stringify(summary.chapters),
+      summary.model,
+      summary.lessonName,
+      new Date().toISOString(),
+    );
+}
+
+export function getLessonSummaries(
+  lessonNames: string[],
+): Map<string, LessonSummary> {
+  const database = ensureDb();
+  if (lessonNames.length === 0) return new Map();
+  const placeholders = lessonNames.map(() => "?").join(",");
+  const rows = database
+    .prepare(
+      `SELECT s.lesson_name, s.summary, s.chapters, s.model,
+         s.content_hash IS NOT p.content_hash AS stale
+       FROM lesson_summaries s
+       LEFT JOIN processed_files p ON p.filename = s.lesson_name
+       WHERE s.lesson_name IN (${placeholders})`,
+    )
+    .all(...lessonNames) as SummaryRow[];
+  return new Map(
+    rows.map((row) => [
+      row.lesson_name,
+      {
+        lessonName: row.lesson_name,
+        summary: row.summary,
+        chapters: JSON.parse(row.chapters) as Chapter[],
+        model: row.model,
+        stale: Boolean(row.stale),
+      },
+    ]),
+  );
+}
+
+export function listStaleSummaries(): string[] {
+  const database = ensureDb();
+  const rows = database
+    .prepare(
+      `SELECT s.lesson_name FROM lesson_summaries s
+       LEFT JOIN processed_files p ON p.filename = s.lesson_name
+       WHERE s.content_hash IS NOT p.content_hash
+       ORDER BY s.lesson_name`,
+    )
+    .all() as { lesson_name: string }[];
+  return rows.map((row) => row.lesson_name);
+}
+
+export type ChatSessionRecord = {
+  id: number;
+  name: string;
+  lessons?: string[];
+  topK?: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ChatTurnRecord = {
+  question: string;
+  // The follow-up rewritten into a self-contained retrieval query
+  standaloneQuery: string;
+  answer: string;
+  // Stored in full so old answers stay inspectable after a re-ingest
+  sources: RetrievedChunk[];
+};
+
+type ChatSessionRow = {
+  id: number;
+  name: string;
+  lessons: string | null;
+  top_k: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function toChatSession(row: ChatSessionRow): ChatSessionRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    lessons: row.lessons ? (JSON.parse(row.lessons) as string[]) : undefined,
+    topK: row.top_k ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function getChatSession(name: string): ChatSessionRecord | null {
+  const database = ensureDb();
+  const row = database
+    .prepare("SELECT * FROM chat_sessions WHERE name = ?")
+    .get(name) as ChatSessionRow | null;
+  return row ? toChatSession(row) : null;
+}
+
+export function listChatSessions(): (ChatSessionRecord & { turns: number })[] {
+  const database = ensureDb();
+  const rows = database
+    .prepare(
+      `
+      SELECT s.*, COUNT(t.id) as turns
+      FROM chat_sessions s
+      LEFT JOIN chat_turns t ON t.session_id = s.id
+      GROUP BY s.id
+      ORDER BY s.updated_at DESC
+    `,
+    )
+    .all() as (ChatSessionRow & { turns: number })[];
+  return rows.map((row) => ({ ...toChatSession(row), turns: row.turns }));
+}
+
+export function createChatSession(
+  name: string,
+  settings: { lessons?: string[]; topK?: number },
+): ChatSessionRecord {
+  const database = ensureDb();
+  const now = new Date().toISOString();
+  const row = database
+    .prepare(
+      `
+      INSERT INTO chat_sessions (name, lessons, top_k, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      RETURNING *
+    `,
+    )
+    .get(
+      name,
+      settings.lessons ? JSON.stringify(settings.lessons) : null,
+      settings.topK ?? null,
+      now,
+      now,
+    ) as ChatSessionRow;
+  return toChatSession(row);
+}
+
+export function updateChatSession(
+  sessionId: number,
+  settings: { lessons?: string[]; topK?: number },
+) {
+  const database = ensureDb();
+  database
+    .prepare(
+      "UPDATE chat_sessions SET lessons = ?, top_k = ?, updated_at = ? WHERE id = ?",
+    )
+    .run(
+      settings.lessons ? JSON.stringify(settings.lessons) : null,
+      settings.topK ?? null,
+      new Date().toISOString(),
+      sessionId,
+    );
+}
+
+export function insertChatTurn(sessionId: number, turn: ChatTurnRecord) {
+  const database = ensureDb();
+  const now = new Date().toISOString();
+  database
+    .prepare(
+      `
+      INSERT INTO chat_turns (session_id, question, standalone_query, answer, sources, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `,
+    )
+    .run(
+      sessionId,
+      turn.question,
+      turn.standaloneQuery,
+      turn.answer,
+      JSON.stringify(turn.sources),
+      now,
+    );
+  database
+    .prepare("UPDATE chat_sessions SET updated_at = ? WHERE id = ?")
+    .run(now, sessionId);
+}
+
+export function getChatTurns(sessionId: number): ChatTurnRecord[] {
+  const database = ensureDb();
+  const rows = database
+    .prepare(
+      `
+      SELECT
+        question as question,
+        standalone_query as standaloneQuery,
+        answer as answer,
+        sources as sources
+      FROM chat_turns
+      WHERE session_id = ?
+      ORDER BY id
+    `,
+    )
+    .all(sessionId) as (Omit<ChatTurnRecord, "sources"> & {
+    sources: string;
+  })[];
+  return rows.map((row) => ({
+    ...row,
+    // Turns saved before speaker labels have none
+    sources: (JSON.parse(row.sources) as RetrievedChunk[]).map((source) => ({
+      ...source,
+      speakers: source.speakers ?? [],
+    })),
+  }));
+}
@@ -1,41 +1,236 @@
-import { embedMany, embed } from "ai";
+import { APICallError, embedMany } from "ai";
+import type { EmbeddingSpace } from "./db";
+import {
+  getLocalProvider,
+  parseModelSpec,
+  type ProviderKind,
+} from "./providers";
 
-const EMBEDDING_MODEL = "voyage/voyage-3-large";
+const DEFAULT_EMBEDDING_MODEL = "voyage/voyage-3-large";
+const DEFAULT_OFFLINE_DIMENSIONS = 384;
+
+// Known output sizes so gateway models don't need a probe request
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  "voyage/voyage-3-large": 1024,
+  "voyage/voyage-3.5": 1024,
+  "voyage/voyage-3.5-lite": 1024,
+  "openai/text-embedding-3-small": 1536,
+  "openai/text-embedding-3-large": 3072,
+};
 
 type InputType = "document" | "query";
 
-export async function embedTexts(
-  values: string[],
-  inputType: InputType = "document"
-): Promise<number[][]> {
-  if (values.length === 0) return [];
+const DEFAULT_MAX_RETRIES = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+// Longer Retry-After waits are honored up to this point
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+
+export type EmbeddingProvider = EmbeddingSpace & {
+  provider: ProviderKind;
+  embed: (values: string[], inputType: InputType) => Promise<number[][]>;
+};
+
+function hashToken(token: string, seed: number): number {
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashEmbedding(text: string, dimensions: number): number[] {
+  // Feature hashing over unigrams and bigrams: lexical, deterministic and
+  // good enough to exercise the vector path in tests and air-gapped setups
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const features = [
+    ...tokens.map((token) => ({ token, weight: 1 })),
+    ...tokens
+      .slice(1)
+      .map((token, i) => ({ token: `${tokens[i]} ${token}`, weight: 0.5 })),
+  ];
+
+  for (const { token, weight } of features) {
+    const index = hashToken(token, 0) % dimensions;
+    const sign = hashToken(token, 1) & 1 ? 1 : -1;
+    vector[index] = (vector[index] ?? 0) + sign * weight;
+  }
 
-  const { embeddings } = await embedMany({
-    model: EMBEDDING_MODEL,
-    values,
-    providerOptions: {
-      voyage: {
-        inputType,
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function configuredDimensions(): number | undefined {
+  const raw = process.env.EMBEDDING_DIMENSIONS;
+  if (!raw) return undefined;
+  const value = Number.parseInt(raw, 10);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid EMBEDDING_DIMENSIONS: ${raw}`);
+  }
+  return value;
+}
+
+async function createEmbeddingProvider(
+  spec: string,
+): Promise<EmbeddingProvider> {
+  const { provider, model } = parseModelSpec(spec);
+
+  if (provider === "offline") {
+    const dimensions = configuredDimensions() ?? DEFAULT_OFFLINE_DIMENSIONS;
+    return {
+      provider,
+      model: spec,
+      dimensions,
+      embed: async (values) =>
+        values.map((value) => hashEmbedding(value, dimensions)),
+    };
+  }
+
+  const embed = async (values: string[], inputType: InputType) => {
+    if (values.length === 0) return [];
+    const { embeddings } = await embedMany({
+      model:
+        provider === "local" ? getLocalProvider().embeddingModel(model) : model,
+      values,
+      // Retries are handled by embedTexts, including gateway rate limits
+      maxRetries: 0,
+      providerOptions: {
+        voyage: {
+          inputType,
+        },
       },
-    },
+    });
+    return embeddings;
+  };
+
+  const dimensions =
+    configuredDimensions() ??
+    KNOWN_DIMENSIONS[spec] ??
+    (
+      await withRetries(
+        () => embed(["dimension probe"], "query"),
+        DEFAULT_MAX_RETRIES,
+      )
+    )[0]?.length;
+  if (!dimensions) {
+    throw new Error(`Could not determine embedding dimensions for ${spec}.`);
+  }
+
+  return { provider, model: spec, dimensions, embed };
+}
+
+function errorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  for (
+    let current = error;
+    current && chain.length < 5;
+    current = (current as { cause?: unknown }).cause
+  ) {
+    chain.push(current);
+  }
+  return chain;
+}
+
+function isRetryable(error: unknown): boolean {
+  return errorChain(error).some((entry) => {
+    if (APICallError.isInstance(entry)) return entry.isRetryable;
+    // Gateway errors carry a status code but are not APICallErrors
+    const status = (entry as { statusCode?: unknown }).statusCode;
+    if (typeof status === "number") {
+      return RETRYABLE_STATUS.has(status) || status >= 500;
+    }
+    // fetch() network failures (connection reset, DNS, ...)
+    return entry instanceof TypeError && /fetch|network/i.test(entry.message);
   });
+}
+
+function retryAfterMs(error: unknown): number | undefined {
+  for (const entry of errorChain(error)) {
+    const headers = (entry as { responseHeaders?: Record<string, string> })
+      .responseHeaders;
+    if (!headers) continue;
+    const ms = Number.parseFloat(headers["retry-after-ms"] ?? "");
+    if (Number.isFinite(ms)) return ms;
+    const value = headers["retry-after"];
+    if (!value) continue;
+    const seconds = Number.parseFloat(value);
+    // Either delta-seconds or an HTTP date
+    return Number.isFinite(seconds)
+      ? seconds * 1000
+      : Date.parse(value) - Date.now();
+  }
+  return undefined;
+}
+
+async function withRetries<T>(
+  fn: () => Promise<T>,
+  maxRetries: number,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) throw error;
+      const backoff = Math.min(
+        BASE_RETRY_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25),
+        MAX_BACKOFF_MS,
+      );
+      const requested = retryAfterMs(error);
+      const delay =
+        requested !== undefined && requested >= 0
+          ? Math.min(requested, MAX_RETRY_AFTER_MS)
+          : backoff;
+      console.warn(
+        `Embedding request failed (${error instanceof Error ? error.message : error}); retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${maxRetries}).`,
+      );
+      await Bun.sleep(delay);
+    }
+  }
+}
+
+const embeddingProviders = new Map<string, Promise<EmbeddingProvider>>();
+
+export function getEmbeddingModelSpec(override?: string): string {
+  return override || process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+}
 
-  return embeddings;
+export function getEmbeddingProvider(
+  modelSpec?: string,
+): Promise<EmbeddingProvider> {
+  const spec = getEmbeddingModelSpec(modelSpec);
+  let provider = embeddingProviders.get(spec);
+  if (!provider) {
+    provider = createEmbeddingProvider(spec);
+    embeddingProviders.set(spec, provider);
+    // A failed probe is retried on the next call instead of failing forever
+    provider.catch(() => embeddingProviders.delete(spec));
+  }
+  return provider;
+}
+
+export async function embedTexts(
+  values: string[],
+  inputType: InputType = "document",
+  modelSpec?: string,
+  maxRetries = DEFAULT_MAX_RETRIES,
+): Promise<number[][]> {
+  if (values.length === 0) return [];
+  const provider = await getEmbeddingProvider(modelSpec);
+  return withRetries(() => provider.embed(values, inputType), maxRetries);
 }
 
 export async function embedText(
   value: string,
-  inputType: InputType = "document"
+  inputType: InputType = "document",
+  modelSpec?: string,
 ): Promise<number[]> {
-  const { embedding } = await embed({
-    model: EMBEDDING_MODEL,
-    value,
-    providerOptions: {
-      voyage: {
-        inputType,
-      },
-    },
-  });
-
+  const [embedding] = await embedTexts([value], inputType, modelSpec);
+  if (!embedding) {
+    throw new Error("Embedding provider returned no embedding.");
+  }
   return embedding;
 }
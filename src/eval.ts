@@ -0,0 +1,527 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { extname, join } from "node:path";
+import { z } from "zod";
+import { listLessonsAcross, type Collection } from "./collections";
+import { describeChunking } from "./chunking";
+import { chunkingFields, type AppConfig } from "./config";
+import { closeDb, withDatabase, type RetrievedChunk } from "./db";
+import { getEmbeddingModelSpec } from "./embed";
+import { runIngest } from "./ingest";
+import { usesGateway } from "./providers";
+import { expandNeighbors, retrieveStages } from "./search";
+import { TIMESTAMP_PATTERN, timestampToSeconds } from "./srt";
+
+const DEFAULT_KS = [1, 5, 10];
+const DEFAULT_TOP_K = 25;
+
+const timeSchema = z
+  .union([
+    z.number().nonnegative(),
+    z.string().regex(TIMESTAMP_PATTERN, "Use seconds or [hh:]mm:ss"),
+  ])
+  .transform((value) =>
+    typeof value === "number" ? value : timestampToSeconds(value),
+  );
+
+const targetSchema = z.object({
+  lesson: z.string().min(1),
+  collection: z.string().optional(),
+  // Omitted bounds mean the start or end of the lesson
+  start: timeSchema.optional(),
+  end: timeSchema.optional(),
+});
+
+const questionSchema = z.object({
+  id: z.string().optional(),
+  question: z.string().min(1),
+  lessons: z.array(z.string().min(1)).optional(),
+  expected: z.array(targetSchema).min(1),
+});
+
+const positiveInt = z.number().int().positive();
+
+const configSchema = z
+  .object({
+    vectorLimit: positiveInt.optional(),
+    bm25Limit: positiveInt.optional(),
+    rerankLimit: positiveInt.optional(),
+    rrfK: z.number().positive().optional(),
+    neighborWindow: z.number().int().nonnegative().optional(),
+    topK: positiveInt.optional(),
+    lexical: z.boolean().optional(),
+    // Without one there is no rerank stage (the CI-friendly default)
+    rerankModel: z.string().optional(),
+    // Either of these builds a temporary index for the configuration
+    embeddingModel: z.string().optional(),
+    chunking: chunkingFields.partial().optional(),
+  })
+  .strict();
+
+const goldenSetSchema = z.object({
+  name: z.string().optional(),
+  // Used when a configuration builds its own index
+  transcriptsDir: z.string().optional(),
+  k: z.array(positiveInt).min(1).default(DEFAULT_KS),
+  configs: z.record(z.string(), configSchema).default({ default: {} }),
+  questions: z.array(questionSchema).min(1),
+});
+
+type GoldenSet = z.infer<typeof goldenSetSchema>;
+type EvalConfig = z.infer<typeof configSchema>;
+type Target = z.infer<typeof targetSchema>;
+
+export const STAGES = ["vector", "bm25", "rrf", "rerank", "context"] as const;
+export type StageName = (typeof STAGES)[number];
+
+export type StageMetrics = {
+  // Keyed by k
+  recall: Record<string, number>;
+  ndcg: Record<string, number>;
+  mrr: number;
+};
+
+export type QuestionResult = {
+  id: string;
+  question: string;
+  // 1-based rank of the first relevant chunk per stage (null: not found)
+  firstRelevant: Partial<Record<StageName, number | null>>;
+};
+
+export type ConfigResult = {
+  config: EvalConfig;
+  stages: Partial<Record<StageName, StageMetrics>>;
+  questions: QuestionResult[];
+};
+
+export type EvalRun = {
+  set: string;
+  createdAt: string;
+  k: number[];
+  configs: Record<string, ConfigResult>;
+};
+
+// Saved runs are checked against the shapes above before they are diffed
+const stageNameSchema = z.enum(STAGES);
+
+const stageMetricsSchema = z.object({
+  recall: z.record(z.string(), z.number()),
+  ndcg: z.record(z.string(), z.number()),
+  mrr: z.number(),
+}) satisfies z.ZodType<StageMetrics>;
+
+const questionResultSchema = z.object({
+  id: z.string(),
+  question: z.string(),
+  firstRelevant: z.partialRecord(stageNameSchema, z.number().nullable()),
+}) satisfies z.ZodType<QuestionResult>;
+
+const evalRunSchema = z.object({
+  set: z.string(),
+  createdAt: z.string(),
+  k: z.array(z.number()),
+  configs: z.record(
+    z.string(),
+    z.object({
+      config: configSchema,
+      stages: z.partialRecord(stageNameSchema, stageMetricsSchema),
+      questions: z.array(questionResultSchema),
+    }),
+  ),
+}) satisfies z.ZodType<EvalRun>;
+
+async function readStructuredFile(path: string): Promise<unknown> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error(`File not found: ${path}`);
+  const text = await file.text();
+  const ext = extname(path).toLowerCase();
+  try {
+    return ext === ".yaml" || ext === ".yml"
+      ? Bun.YAML.parse(text)
+      : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Could not parse ${path}: ${(error as Error).message}`);
+  }
+}
+
+export async function loadGoldenSet(path: string): Promise<GoldenSet> {
+  const parsed = goldenSetSchema.safeParse(await readStructuredFile(path));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid golden set ${path}:\n${z.prettifyError(parsed.error)}`,
+    );
+  }
+  return parsed.data;
+}
+
+export async function loadEvalRun(path: string): Promise<EvalRun> {
+  const parsed = evalRunSchema.safeParse(await readStructuredFile(path));
+  if (!parsed.success) {
+    throw new Error(
+      `${path} is not a saved eval run:\n${z.prettifyError(parsed.error)}`,
+    );
+  }
+  return parsed.data;
+}
+
+function isRelevant(chunk: RetrievedChunk, target: Target): boolean {
+  if (chunk.lessonName !== target.lesson) return false;
+  if (target.collection && chunk.collection !== target.collection) {
+    return false;
+  }
+  const start = target.start ?? 0;
+  const end = target.end ?? Number.POSITIVE_INFINITY;
+  return chunk.startSeconds <= end && chunk.endSeconds >= start;
+}
+
+function scoreRanking(
+  ranking: RetrievedChunk[],
+  targets: Target[],
+  ks: number[],
+): { metrics: StageMetrics; firstRelevant: number | null } {
+  const firstIdx = ranking.findIndex((chunk) =>
+    targets.some((target) => isRelevant(chunk, target)),
+  );
+  const recall: Record<string, number> = {};
+  const ndcg: Record<string, number> = {};
+
+  for (const k of ks) {
+    // A target counts once, so overlapping chunks cannot inflate the score
+    const covered = new Set<number>();
+    let dcg = 0;
+    ranking.slice(0, k).forEach((chunk, idx) => {
+      const novel = targets.findIndex(
+        (target, targetIdx) =>
+          !covered.has(targetIdx) && isRelevant(chunk, target),
+      );
+      if (novel === -1) return;
+      covered.add(novel);
+      dcg += 1 / Math.log2(idx + 2);
+    });
+    let idcg = 0;
+    for (let idx = 0; idx < Math.min(k, targets.length); idx++) {
+      idcg += 1 / Math.log2(idx + 2);
+    }
+    recall[k] = covered.size / targets.length;
+    ndcg[k] = idcg > 0 ? dcg / idcg : 0;
+  }
+
+  return {
+    metrics: { recall, ndcg, mrr: firstIdx === -1 ? 0 : 1 / (firstIdx + 1) },
+    firstRelevant: firstIdx === -1 ? null : firstIdx + 1,
+  };
+}
+
+function averageMetrics(all: StageMetrics[], ks: number[]): StageMetrics {
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+  const byK = (pick: (metrics: StageMetrics) => Record<string, number>) =>
+    Object.fromEntries(
+      ks.map((k) => [k, mean(all.map((metrics) => pick(metrics)[k] ?? 0))]),
+    );
+  return {
+    recall: byK((metrics) => metrics.recall),
+    ndcg: byK((metrics) => metrics.ndcg),
+    mrr: mean(all.map((metrics) => metrics.mrr)),
+  };
+}
+
+function chunkKey(chunk: RetrievedChunk) {
+  return `${chunk.collection ?? ""}:${chunk.id}`;
+}
+
+type IndexHandle = { collections: Collection[]; cleanup?: () => Promise<void> };
+
+async function buildIndex(
+  base: Collection,
+  transcriptsDir: string,
+  config: EvalConfig,
+  baseline: AppConfig,
+): Promise<IndexHandle> {
+  const dir = await mkdtemp(join(tmpdir(), "transcript-rag-eval-"));
+  const chunking = { ...baseline.chunking, ...config.chunking };
+  const collection: Collection = {
+    ...base,
+    transcriptsDir,
+    dbPath: join(dir, "eval.db"),
+    settings: {
+      ...base.settings,
+      embeddingModel: config.embeddingModel ?? base.settings.embeddingModel,
+    },
+  };
+  console.error(
+    `Building a temporary index from ${transcriptsDir} (${describeChunking(chunking)}, ${getEmbeddingModelSpec(collection.settings.embeddingModel)})...`,
+  );
+  await withDatabase(collection.dbPath, () =>
+    runIngest({
+      transcriptsDir,
+      force: true,
+      embeddingModel: collection.settings.embeddingModel,
+      chunking,
+      batching: baseline.ingest,
+      selection: baseline.transcripts,
+      quiet: true,
+    }),
+  );
+  return {
+    collections: [collection],
+    cleanup: async () => {
+      closeDb(collection.dbPath);
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+async function evaluateConfig(
+  set: GoldenSet,
+  config: EvalConfig,
+  collections: Collection[],
+  baseline: AppConfig,
+): Promise<ConfigResult> {
+  const params = {
+    vectorLimit: config.vectorLimit ?? baseline.retrieval.vectorLimit,
+    bm25Limit: config.bm25Limit ?? baseline.retrieval.bm25Limit,
+    rerankLimit: config.rerankLimit ?? baseline.retrieval.rerankLimit,
+    rrfK: config.rrfK ?? baseline.retrieval.rrfK,
+    neighborWindow: config.neighborWindow ?? baseline.retrieval.neighborWindow,
+  };
+  const topK = config.topK ?? DEFAULT_TOP_K;
+  const perStage = new Map<StageName, StageMetrics[]>();
+  const questions: QuestionResult[] = [];
+
+  // A typo in a lesson name would silently score as a miss
+  const available = new Set(await listLessonsAcross(collections));
+  const missing = new Set(
+    set.questions.flatMap((entry) =>
+      entry.expected
+        .map((target) => target.lesson)
+        .filter((lesson) => !available.has(lesson)),
+    ),
+  );
+  if (missing.size > 0) {
+    console.error(
+      `Warning: expected lesson(s) not in the index: ${Array.from(missing).join(", ")}`,
+    );
+  }
+
+  for (const [idx, entry] of set.questions.entries()) {
+    const stages = await retrieveStages({
+      query: entry.question,
+      lessons: entry.lessons,
+      collections,
+      lexical: config.lexical,
+      rerankModel: config.rerankModel,
+      params,
+    });
+
+    // Context: the top-k chunks in rank order, then their neighbors
+    const ranked = (stages.rerank ?? stages.rrf).slice(0, topK);
+    const rankedKeys = new Set(ranked.map(chunkKey));
+    const expanded = await expandNeighbors(
+      ranked,
+      params.neighborWindow,
+      collections,
+    );
+    const rankings: Partial<Record<StageName, RetrievedChunk[]>> = {
+      vector: config.lexical ? undefined : stages.vector,
+      bm25: stages.bm25,
+      rrf: stages.rrf,
+      rerank: stages.rerank ?? undefined,
+      context: [
+        ...ranked,
+        ...expanded.filter((chunk) => !rankedKeys.has(chunkKey(chunk))),
+      ],
+    };
+
+    const result: QuestionResult = {
+      id: entry.id ?? `q${idx + 1}`,
+      question: entry.question,
+      firstRelevant: {},
+    };
+    for (const stage of STAGES) {
+      const ranking = rankings[stage];
+      if (!ranking) continue;
+      const scored = scoreRanking(ranking, entry.expected, set.k);
+      perStage.set(stage, [...(perStage.get(stage) ?? []), scored.metrics]);
+      result.firstRelevant[stage] = scored.firstRelevant;
+    }
+    questions.push(result);
+  }
+
+  const stages: Partial<Record<StageName, StageMetrics>> = {};
+  for (const [stage, metrics] of perStage) {
+    stages[stage] = averageMetrics(metrics, set.k);
+  }
+  return { config, stages, questions };
+}
+
+export async function runEval(options: {
+  file: string;
+  collections: Collection[];
+  configNames?: string[];
+  // Project settings that configurations fall back to
+  baseline: AppConfig;
+}): Promise<EvalRun> {
+  const set = await loadGoldenSet(options.file);
+  const names = options.configNames ?? Object.keys(set.configs);
+  const unknown = names.filter((name) => !set.configs[name]);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown eval config(s): ${unknown.join(", ")}. Defined: ${Object.keys(set.configs).join(", ")}.`,
+    );
+  }
+
+  const [base] = options.collections;
+  if (!base) throw new Error("No collection to evaluate.");
+  const modelSpecs = names.flatMap((name) => {
+    const config = set.configs[name]!;
+    const specs = config.lexical
+      ? []
+      : [
+          getEmbeddingModelSpec(
+            config.embeddingModel ?? base.settings.embeddingModel,
+          ),
+        ];
+    return config.rerankModel ? [...specs, config.rerankModel] : specs;
+  });
+  if (usesGateway(modelSpecs) && !process.env.AI_GATEWAY_API_KEY) {
+    throw new Error(
+      "AI_GATEWAY_API_KEY is required for gateway models; use an offline:hash embedding model and no rerankModel to evaluate offline.",
+    );
+  }
+
+  const run: EvalRun = {
+    set: set.name ?? options.file,
+    createdAt: new Date().toISOString(),
+    k: set.k,
+    configs: {},
+  };
+
+  for (const name of names) {
+    const config = set.configs[name]!;
+    console.error(
+      `Evaluating ${name} on ${set.questions.length} question(s)...`,
+    );
+    const needsOwnIndex = Boolean(config.chunking || config.embeddingModel);
+    const index: IndexHandle = needsOwnIndex
+      ? await buildIndex(
+          base,
+          set.transcriptsDir ?? base.transcriptsDir,
+          config,
+          options.baseline,
+        )
+      : { collections: options.collections };
+    try {
+      run.configs[name] = await evaluateConfig(
+        set,
+        config,
+        index.collections,
+        options.baseline,
+      );
+    } finally {
+      await index.cleanup?.();
+    }
+  }
+
+  return run;
+}
+
+function formatRow(cells: string[], widths: number[]) {
+  return cells
+    .map((cell, idx) => cell.padEnd(widths[idx] ?? 0))
+    .join("  ")
+    .trimEnd();
+}
+
+function metricColumns(k: number[]) {
+  return [
+    ...k.map((value) => `R@${value}`),
+    "MRR",
+    ...k.map((value) => `nDCG@${value}`),
+  ];
+}
+
+function metricValues(metrics: StageMetrics, k: number[]): number[] {
+  return [
+    ...k.map((value) => metrics.recall[value] ?? 0),
+    metrics.mrr,
+    ...k.map((value) => metrics.ndcg[value] ?? 0),
+  ];
+}
+
+export function printEvalRun(run: EvalRun) {
+  const header = ["stage", ...metricColumns(run.k)];
+  const widths = header.map((cell) => Math.max(cell.length, 7));
+  for (const [name, result] of Object.entries(run.configs)) {
+    console.log(`\nConfig ${name} (${result.questions.length} questions)`);
+    console.log(formatRow(header, widths));
+    for (const stage of STAGES) {
+      const metrics = result.stages[stage];
+      if (!metrics) continue;
+      const values = metricValues(metrics, run.k).map((value) =>
+        value.toFixed(3),
+      );
+      console.log(formatRow([stage, ...values], widths));
+    }
+    const missed = result.questions.filter(
+      (question) => question.firstRelevant.context === null,
+    );
+    if (missed.length > 0) {
+      console.log(
+        `Missed in context: ${missed.map((question) => question.id).join(", ")}`,
+      );
+    }
+  }
+}
+
+export function printEvalDiff(before: EvalRun, after: EvalRun) {
+  const k = after.k.filter((value) => before.k.includes(value));
+  const header = ["stage", ...metricColumns(k)];
+  const widths = header.map((cell) => Math.max(cell.length, 14));
+  const shared = Object.keys(after.configs).filter(
+    (name) => before.configs[name],
+  );
+  if (shared.length === 0) {
+    console.log("The runs have no configurations in common.");
+    return;
+  }
+
+  for (const name of shared) {
+    const old = before.configs[name]!;
+    const current = after.configs[name]!;
+    console.log(`\nConfig ${name}: ${before.createdAt} -> ${after.createdAt}`);
+    console.log(formatRow(header, widths));
+    for (const stage of STAGES) {
+      const a = old.stages[stage];
+      const b = current.stages[stage];
+      if (!a || !b) continue;
+      const previous = metricValues(a, k);
+      const cells = metricValues(b, k).map((value, idx) => {
+        const delta = value - (previous[idx] ?? 0);
+        const sign = delta > 0 ? "+" : "";
+        return Math.abs(delta) < 0.0005
+          ? value.toFixed(3)
+          : `${value.toFixed(3)} (${sign}${delta.toFixed(3)})`;
+      });
+      console.log(formatRow([stage, ...cells], widths));
+    }
+
+    // Per-question movement of the first relevant chunk in the final context
+    const oldRanks = new Map(
+      old.questions.map((question) => [
+        question.id,
+        question.firstRelevant.context ?? null,
+      ]),
+    );
+    const changes = current.questions.filter(
+      (question) =>
+        oldRanks.has(question.id) &&
+        oldRanks.get(question.id) !== (question.firstRelevant.context ?? null),
+    );
+    for (const question of changes) {
+      const from = oldRanks.get(question.id) ?? "miss";
+      const to = question.firstRelevant.context ?? "miss";
+      console.log(`  ${question.id}: first relevant ${from} -> ${to}`);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { extname } from "node:path";
+import { isAssContent, parseAss } from "./ass";
+import { parsePlainText } from "./plaintext";
+import { isSrtContent, parseSrt, type SrtEntry } from "./srt";
+import { isVttContent, parseVtt } from "./vtt";
+import { isWhisperJson, parseWhisperJson } from "./whisper";
+
+export type TranscriptLoader = {
+  format: string;
+  extensions: string[];
+  // Content sniffing; loaders without a reliable signature return false
+  detect: (content: string) => boolean;
+  parse: (content: string) => SrtEntry[];
+  approximateTiming?: boolean;
+};
+
+export type LoadedTranscript = {
+  format: string;
+  entries: SrtEntry[];
+  approximateTiming: boolean;
+};
+
+const loaders: TranscriptLoader[] = [
+  {
+    format: "vtt",
+    extensions: [".vtt"],
+    detect: isVttContent,
+    parse: parseVtt,
+  },
+  {
+    format: "ass",
+    extensions: [".ass", ".ssa"],
+    detect: isAssContent,
+    parse: parseAss,
+  },
+  {
+    format: "srt",
+    extensions: [".srt"],
+    detect: isSrtContent,
+    parse: parseSrt,
+  },
+  {
+    format: "whisper-json",
+    extensions: [".json"],
+    detect: isWhisperJson,
+    parse: parseWhisperJson,
+  },
+  {
+    format: "text",
+    extensions: [".txt"],
+    detect: () => false,
+    parse: parsePlainText,
+    approximateTiming: true,
+  },
+];
+
+export function getTranscriptExtensions(): string[] {
+  return Array.from(new Set(loaders.flatMap((loader) => loader.extensions)));
+}
+
+export function isTranscriptFile(filename: string): boolean {
+  return getTranscriptExtensions().includes(extname(filename).toLowerCase());
+}
+
+export function findLoader(
+  filename: string,
+  content: string,
+): TranscriptLoader | null {
+  // Content wins over the extension: video hosts often serve WebVTT as .srt
+  const detected = loaders.find((loader) => loader.detect(content));
+  if (detected) return detected;
+  const extension = extname(filename).toLowerCase();
+  return (
+    loaders.find((loader) => loader.extensions.includes(extension)) ?? null
+  );
+}
+
+export function loadTranscript(
+  filename: string,
+  content: string,
+): LoadedTranscript | null {
+  const loader = findLoader(filename, content);
+  if (!loader) return null;
+  return {
+    format: loader.format,
+    entries: loader.parse(content),
+    approximateTiming: Boolean(loader.approximateTiming),
+  };
+}
@@ -1,110 +1,677 @@
 import { readdir, stat } from "node:fs/promises";
-import { join, parse as parsePath } from "node:path";
-import { embedTexts } from "./embed";
+import { join, parse as parsePath, relative, sep } from "node:path";
 import {
-  deleteByLesson,
-  initDb,
-  insertChunk,
-  insertEmbedding,
+  chunkEntries,
+  chunkingSignature,
+  DEFAULT_CHUNKING,
+  describeChunking,
+  describeStoredChunking,
+  isSameChunking,
+  type ChunkingOptions,
+} from "./chunking";
+import { embedTexts, getEmbeddingProvider } from "./embed";
+import {
+  cacheEmbeddings,
+  checkIndex,
+  commitStagedLesson,
+  ensureEmbeddingSpace,
+  getCachedEmbeddings,
+  getEmbeddingSpace,
   getProcessedInfo,
-  recordProcessed,
+  getStagedLesson,
+  initDb,
+  isSameEmbeddingSpace,
+  listStaleSummaries,
+  listStoredLessons,
+  removeLesson,
+  renameLesson,
+  resetEmbeddingSpace,
+  saveLessonInfo,
+  stageChunks,
+  startStagedLesson,
+  updateFingerprint,
+  type EmbeddingSpace,
+  type FileFingerprint,
 } from "./db";
-import { aggregateEntries, normalizeEntries, parseSrt } from "./srt";
+import {
+  getTranscriptExtensions,
+  isTranscriptFile,
+  loadTranscript,
+} from "./formats";
+import { createMetadataLoader, isMetadataFile } from "./metadata";
+import { normalizeEntries, type ChunkEntry } from "./srt";
+import { runSummarize } from "./summarize";
+
+export type IngestBatching = {
+  // Chunks per embedding request
+  batchSize: number;
+  // Lessons embedded at the same time
+  concurrency: number;
+  // Retries per request on rate limits and transient errors
+  maxRetries: number;
+};
+
+export const DEFAULT_INGEST_BATCHING: IngestBatching = {
+  batchSize: 64,
+  concurrency: 2,
+  maxRetries: 5,
+};
+
+export type TranscriptSelection = {
+  // Also ingest subfolders; their lessons are named by relative path
+  recursive: boolean;
+  // Globs matched against paths relative to the transcripts directory
+  include: string[];
+  exclude: string[];
+};
+
+export const DEFAULT_TRANSCRIPT_SELECTION: TranscriptSelection = {
+  recursive: false,
+  include: ["**/*"],
+  exclude: [],
+};
 
 type IngestOptions = {
   transcriptsDir: string;
   force: boolean;
+  selection?: TranscriptSelection;
+  embeddingModel?: string;
+  chunking?: ChunkingOptions;
+  batching?: IngestBatching;
+  // Remove lessons whose transcript is gone; renamed files keep their chunks
+  prune?: boolean;
+  // Report what would change without writing to the database
+  dryRun?: boolean;
+  // Skip per-file progress lines (warnings are still printed)
+  quiet?: boolean;
+  // Refreshes existing summaries of changed lessons with this model; without
+  // one, outdated summaries are only reported
+  summaryModel?: string;
 };
 
-export async function runIngest(options: IngestOptions) {
-  await initDb();
+export type IngestSummary = {
+  ingested: number;
+  skipped: number;
+  // Lessons left unfinished after errors; the next ingest resumes them
+  failed: number;
+  // Only with prune
+  renamed: number;
+  removed: number;
+  total: number;
+  // Outdated summaries that could not be refreshed
+  summariesFailed: number;
+};
+
+type TranscriptFile = {
+  // Relative to the transcripts directory, with / separators
+  filename: string;
+  lessonName: string;
+  content: string;
+  fingerprint: FileFingerprint;
+};
+
+type PendingLesson = {
+  filename: string;
+  lessonName: string;
+  // Chunks that still need embedding (all of them unless resuming)
+  todo: ChunkEntry[];
+  note: string;
+};
+
+function sha256(text: string): string {
+  return new Bun.CryptoHasher("sha256").update(text).digest("hex");
+}
+
+// Whitespace-only edits (re-wrapped cues, trailing spaces) reuse the cache
+function textHash(text: string): string {
+  return sha256(text.replace(/\s+/g, " ").trim());
+}
+
+// Embeds only the texts the cache has not seen for this model
+async function embedWithCache(
+  texts: string[],
+  space: EmbeddingSpace,
+  embed: (texts: string[]) => Promise<number[][]>,
+): Promise<{ embeddings: number[][]; cached: number }> {
+  const hashes = texts.map(textHash);
+  const cache = getCachedEmbeddings(space, hashes);
+  const missing = Array.from(
+    new Set(hashes.filter((hash) => !cache.has(hash))),
+  );
+  const cached = hashes.filter((hash) => cache.has(hash)).length;
+
+  if (missing.length > 0) {
+    const missingTexts = missing.map((hash) => texts[hashes.indexOf(hash)]!);
+    const fresh = await embed(missingTexts);
+    cacheEmbeddings(space, missing, fresh);
+    missing.forEach((hash, idx) => {
+      const embedding = fresh[idx];
+      if (embedding) cache.set(hash, embedding);
+    });
+  }
+  return {
+    embeddings: hashes.map((hash) => cache.get(hash) ?? []),
+    cached,
+  };
+}
+
+function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0
+    ? `${minutes}m${String(seconds % 60).padStart(2, "0")}s`
+    : `${seconds}s`;
+}
 
-  const dirEntries = await readdir(options.transcriptsDir, {
+function createProgress(
+  totalFiles: number,
+  totalChunks: number,
+  quiet = false,
+) {
+  const startedAt = Date.now();
+  // Redraw a single status line on terminals; print per file otherwise
+  const live = !quiet && Boolean(process.stderr.isTTY);
+  let files = 0;
+  let chunks = 0;
+
+  const line = () => {
+    const elapsed = (Date.now() - startedAt) / 1000;
+    const eta =
+      chunks > 0 && chunks < totalChunks
+        ? `, ETA ${formatDuration((elapsed / chunks) * (totalChunks - chunks))}`
+        : "";
+    return `Embedding: ${files}/${totalFiles} files, ${chunks}/${totalChunks} chunks${eta}`;
+  };
+  const draw = () => {
+    if (live) process.stderr.write(`\r${line()}\x1b[K`);
+  };
+
+  return {
+    chunksDone(count: number) {
+      chunks += count;
+      draw();
+    },
+    fileDone() {
+      files += 1;
+      if (live) draw();
+      else if (!quiet) console.error(line());
+    },
+    // Prints above the status line
+    log(message: string, write: (message: string) => void) {
+      if (live) process.stderr.write("\r\x1b[K");
+      write(message);
+      draw();
+    },
+    finish() {
+      if (live) process.stderr.write("\r\x1b[K");
+    },
+  };
+}
+
+async function mapWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++]!;
+      await fn(item);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+}
+
+// A lesson is identified by its relative path without the extension, so
+// course-a/intro.srt and course-b/intro.srt stay apart; top-level files keep
+// their plain file name
+function lessonIdFromPath(relativePath: string): string {
+  const { dir, name } = parsePath(relativePath);
+  return dir ? `${dir}/${name}` : name;
+}
+
+// Hidden files and folders are never ingested
+async function listTranscriptFiles(
+  transcriptsDir: string,
+  selection: TranscriptSelection,
+): Promise<string[]> {
+  const entries = await readdir(transcriptsDir, {
+    recursive: selection.recursive,
     withFileTypes: true,
   });
-  const srtFiles = dirEntries
+  const include = selection.include.map((pattern) => new Bun.Glob(pattern));
+  const exclude = selection.exclude.map((pattern) => new Bun.Glob(pattern));
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) =>
+      relative(transcriptsDir, join(entry.parentPath, entry.name))
+        .split(sep)
+        .join("/"),
+    )
     .filter(
-      (entry) => entry.isFile() && entry.name.toLowerCase().endsWith(".srt"),
+      (path) =>
+        isTranscriptFile(path) &&
+        !isMetadataFile(path) &&
+        !path.split("/").some((segment) => segment.startsWith(".")) &&
+        include.some((glob) => glob.match(path)) &&
+        !exclude.some((glob) => glob.match(path)),
     )
-    .map((entry) => entry.name);
+    .sort();
+}
 
-  if (srtFiles.length === 0) {
-    console.warn(`No .srt files found in ${options.transcriptsDir}`);
-    return;
+async function readTranscriptFile(
+  transcriptsDir: string,
+  filename: string,
+): Promise<TranscriptFile | null> {
+  const filepath = join(transcriptsDir, filename);
+  const file = Bun.file(filepath);
+  if (!(await file.exists())) {
+    console.warn(`File missing: ${filepath}`);
+    return null;
   }
+  const stats = await stat(filepath);
+  const content = await file.text();
+  return {
+    filename,
+    lessonName: lessonIdFromPath(filename),
+    content,
+    fingerprint: {
+      mtime: Math.floor(stats.mtimeMs),
+      size: stats.size,
+      contentHash: sha256(content),
+    },
+  };
+}
 
-  let ingested = 0;
-  let skipped = 0;
+async function openEmbeddingSpace(
+  options: IngestOptions,
+  log: (message: string) => void,
+): Promise<EmbeddingSpace> {
+  const space = await getEmbeddingProvider(options.embeddingModel);
+  const stored = getEmbeddingSpace();
+  if (options.force && stored && !isSameEmbeddingSpace(stored, space)) {
+    log(
+      `Embedding model changed (${stored.model} -> ${space.model}); rebuilding index.`,
+    );
+    resetEmbeddingSpace(space);
+  } else {
+    ensureEmbeddingSpace(space);
+  }
+  return space;
+}
+
+// Metadata only changes the lessons table, so it is refreshed on every run
+// without re-embedding
+async function refreshLessonInfo(
+  transcriptsDir: string,
+  files: TranscriptFile[],
+) {
+  const loadMetadata = createMetadataLoader(transcriptsDir);
+  // A broken manifest would otherwise be reported once per lesson
+  const warned = new Set<string>();
+  for (const { lessonName } of files) {
+    try {
+      const metadata = await loadMetadata(lessonName);
+      saveLessonInfo({
+        lessonName,
+        title: metadata.title ?? null,
+        course: metadata.course ?? null,
+        module: metadata.module ?? null,
+        order: metadata.order ?? null,
+        tags: metadata.tags ?? [],
+        videoUrl: metadata.videoUrl ?? null,
+      });
+    } catch (error) {
+      // The lesson is still ingested, keeping whatever metadata it had
+      const message = error instanceof Error ? error.message : String(error);
+      if (!warned.has(message)) console.warn(message);
+      warned.add(message);
+    }
+  }
+}
+
+// The lesson's transcript path, found by trying every known extension; this
+// also finds files outside the current selection (not recursive, excluded)
+export async function findTranscriptFile(
+  transcriptsDir: string,
+  lessonName: string,
+): Promise<string | null> {
+  for (const extension of getTranscriptExtensions()) {
+    const path = join(transcriptsDir, `${lessonName}${extension}`);
+    if (await Bun.file(path).exists()) return path;
+  }
+  return null;
+}
+
+// Lessons stored under a name no file has anymore are renamed when a new
+// file has the same content, and removed otherwise
+async function pruneLessons(
+  transcriptsDir: string,
+  files: TranscriptFile[],
+  dryRun: boolean,
+  log: (message: string) => void,
+): Promise<{ renamed: Map<string, string>; removed: number }> {
+  const stored = listStoredLessons();
+  const storedNames = new Set(stored.map((lesson) => lesson.lessonName));
+  const current = new Set(files.map((file) => file.lessonName));
+  // Only files that have nothing stored yet can be the new name
+  const unclaimed = files.filter((file) => !storedNames.has(file.lessonName));
+  const renamed = new Map<string, string>();
+  let removed = 0;
 
-  for (const filename of srtFiles) {
-    const { name: lessonName } = parsePath(filename);
-    const filepath = join(options.transcriptsDir, filename);
+  for (const lesson of stored) {
+    if (current.has(lesson.lessonName)) continue;
+    if (await findTranscriptFile(transcriptsDir, lesson.lessonName)) continue;
+    const match = lesson.contentHash
+      ? unclaimed.find(
+          (file) =>
+            file.fingerprint.contentHash === lesson.contentHash &&
+            !renamed.has(file.lessonName),
+        )
+      : undefined;
+
+    if (match) {
+      renamed.set(match.lessonName, lesson.lessonName);
+      if (!dryRun) renameLesson(lesson.lessonName, match.lessonName);
+      log(
+        `${dryRun ? "Would rename" : "Renamed"}: ${lesson.lessonName} -> ${match.lessonName}`,
+      );
+    } else {
+      removed += 1;
+      if (!dryRun) removeLesson(lesson.lessonName);
+      log(
+        `${dryRun ? "Would remove" : "Removed"}: ${lesson.lessonName} (no transcript)`,
+      );
+    }
+  }
+  return { renamed, removed };
+}
+
+export async function runIngest(
+  options: IngestOptions,
+): Promise<IngestSummary> {
+  await initDb();
+  const log = options.quiet ? () => {} : console.log;
+  const dryRun = Boolean(options.dryRun);
+  const chunking = options.chunking ?? DEFAULT_CHUNKING;
+  const batching = options.batching ?? DEFAULT_INGEST_BATCHING;
+  const signature = JSON.stringify(chunkingSignature(chunking));
+  const embedUncached = (texts: string[]) =>
+    embedTexts(texts, "document", options.embeddingModel, batching.maxRetries);
 
-    const file = Bun.file(filepath);
-    if (!(await file.exists())) {
-      console.warn(`File missing: ${filepath}`);
+  const transcriptFiles = await listTranscriptFiles(
+    options.transcriptsDir,
+    options.selection ?? DEFAULT_TRANSCRIPT_SELECTION,
+  );
+
+  // Also keeps a sync pointed at the wrong directory from removing everything
+  if (transcriptFiles.length === 0) {
+    console.warn(
+      `No transcript files (${getTranscriptExtensions().join(", ")}) found in ${options.transcriptsDir}`,
+    );
+    return {
+      ingested: 0,
+      skipped: 0,
+      failed: 0,
+      renamed: 0,
+      removed: 0,
+      total: 0,
+      summariesFailed: 0,
+    };
+  }
+
+  // A dry run never embeds, so it needs no model (or API key)
+  const space = dryRun ? null : await openEmbeddingSpace(options, log);
+  const embed = async (texts: string[]) => {
+    if (!space) throw new Error("A dry run does not embed.");
+    return embedWithCache(texts, space, embedUncached);
+  };
+  const embedSentences = async (texts: string[]) =>
+    (await embed(texts)).embeddings;
+
+  const files: TranscriptFile[] = [];
+  const seen = new Map<string, string>();
+  for (const filename of transcriptFiles) {
+    const lessonName = lessonIdFromPath(filename);
+    const other = seen.get(lessonName);
+    if (other) {
+      // e.g. intro.srt and intro.vtt in the same folder
+      console.warn(
+        `Skipping ${filename}: lesson ${lessonName} already comes from ${other}`,
+      );
       continue;
     }
+    seen.set(lessonName, filename);
+    const file = await readTranscriptFile(options.transcriptsDir, filename);
+    if (file) files.push(file);
+  }
+
+  // Renames happen first so renamed files are then skipped as unchanged
+  const pruned = options.prune
+    ? await pruneLessons(options.transcriptsDir, files, dryRun, log)
+    : { renamed: new Map<string, string>(), removed: 0 };
+  if (!dryRun) await refreshLessonInfo(options.transcriptsDir, files);
+
+  let skipped = 0;
+  let failed = 0;
+  let planned = 0;
+  const pending: PendingLesson[] = [];
+  // Lessons the startup check flagged are rebuilt even when unchanged
+  const incomplete = new Set(checkIndex().map((problem) => problem.lessonName));
 
-    const stats = await stat(filepath);
-    const mtime = Math.floor(stats.mtimeMs);
-    const size = stats.size;
-    const processed = getProcessedInfo(lessonName);
+  // Parse and chunk everything first so progress knows the total work
+  for (const { filename, lessonName, content, fingerprint } of files) {
+    // A dry run has not applied its renames, so look under the old name
+    const storedName = dryRun
+      ? (pruned.renamed.get(lessonName) ?? lessonName)
+      : lessonName;
+    const processed = getProcessedInfo(storedName);
+    // Lessons from before content hashes were kept fall back to mtime and size
     const isUnchanged =
-      processed && processed.mtime === mtime && processed.size === size;
+      processed &&
+      (processed.contentHash
+        ? processed.contentHash === fingerprint.contentHash
+        : processed.mtime === fingerprint.mtime &&
+          processed.size === fingerprint.size);
+    const chunkingChanged =
+      processed !== null && !isSameChunking(processed.chunking, chunking);
 
-    if (!options.force && isUnchanged) {
-      console.log(`Skipping unchanged: ${filename}`);
-      skipped += 1;
-      continue;
+    if (!options.force && isUnchanged && !chunkingChanged) {
+      if (!incomplete.has(storedName)) {
+        if (
+          !dryRun &&
+          (processed.contentHash !== fingerprint.contentHash ||
+            processed.mtime !== fingerprint.mtime)
+        ) {
+          updateFingerprint(lessonName, fingerprint);
+        }
+        log(`Skipping unchanged: ${filename}`);
+        skipped += 1;
+        continue;
+      }
+      log(`Rebuilding incomplete: ${filename}`);
+    } else if (!options.force && isUnchanged && chunkingChanged) {
+      log(
+        `Re-chunking: ${filename} (${describeStoredChunking(processed.chunking)} -> ${describeChunking(chunking)})`,
+      );
     }
 
-    if (options.force || processed) {
-      deleteByLesson(lessonName);
+    if (dryRun) {
+      log(`Would ingest: ${filename}`);
+      planned += 1;
+      continue;
     }
 
-    const content = await file.text();
-    const entries = parseSrt(content);
+    // An interrupted ingest of the same content and chunking keeps its chunks
+    const staged = getStagedLesson(lessonName);
+    const resume = Boolean(
+      !options.force &&
+      staged &&
+      staged.contentHash === fingerprint.contentHash &&
+      staged.chunking === signature,
+    );
+
+    const transcript = loadTranscript(filename, content);
 
-    if (entries.length === 0) {
+    if (!transcript) {
+      console.warn(`Unsupported transcript format: ${filename}`);
+      continue;
+    }
+
+    if (transcript.entries.length === 0) {
       console.warn(`No entries parsed from ${filename}`);
       continue;
     }
 
-    const normalizedEntries = normalizeEntries(entries);
-    const chunks = aggregateEntries(normalizedEntries, 45, 10);
+    const normalizedEntries = normalizeEntries(transcript.entries);
+    let chunks: ChunkEntry[];
+    try {
+      chunks = await chunkEntries(normalizedEntries, chunking, embedSentences);
+    } catch (error) {
+      // Semantic chunking embeds sentences and can fail like any request
+      failed += 1;
+      console.error(
+        `Failed: ${filename} (${error instanceof Error ? error.message : error})`,
+      );
+      continue;
+    }
 
     if (chunks.length === 0) {
       console.warn(`No chunks created from ${filename}`);
       continue;
     }
 
-    const embeddings = await embedTexts(
-      chunks.map((chunk) => chunk.text),
-      "document",
+    // The lesson stays searchable in its old form until the swap
+    const done = resume && staged ? staged.chunkIndexes : new Set<number>();
+    if (resume) {
+      log(
+        `Resuming: ${filename} (${done.size}/${chunks.length} chunks already embedded)`,
+      );
+    } else {
+      startStagedLesson(lessonName, fingerprint, signature);
+    }
+
+    const timingNote = transcript.approximateTiming
+      ? ", approximate timestamps"
+      : "";
+    pending.push({
+      filename,
+      lessonName,
+      todo: chunks.filter((chunk) => !done.has(chunk.chunkIndex)),
+      note: `${transcript.format}, ${chunks.length} chunks${timingNote}`,
+    });
+  }
+
+  const pruneNote = options.prune
+    ? `, ${dryRun ? "rename" : "renamed"} ${pruned.renamed.size}, ${dryRun ? "remove" : "removed"} ${pruned.removed}`
+    : "";
+  if (dryRun) {
+    log(
+      `Dry run: would ingest ${planned}, skip ${skipped}${pruneNote}, total files ${transcriptFiles.length}. Nothing was changed.`,
     );
+    // The counts describe the plan
+    return {
+      ingested: planned,
+      skipped,
+      failed: 0,
+      renamed: pruned.renamed.size,
+      removed: pruned.removed,
+      total: transcriptFiles.length,
+      summariesFailed: 0,
+    };
+  }
 
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const embedding = embeddings[i];
-      const chunkId = insertChunk({
-        lessonName,
-        chunkIndex: chunk.chunkIndex,
-        startTime: chunk.start,
-        endTime: chunk.end,
-        startSeconds: chunk.startSeconds,
-        endSeconds: chunk.endSeconds,
-        text: chunk.text,
-      });
-      insertEmbedding(chunkId, embedding);
+  // Half-written lessons from older versions whose file is gone can only go
+  // (--sync removes every lesson without a file before this point)
+  const lessonNames = new Set(files.map((file) => file.lessonName));
+  for (const lessonName of incomplete) {
+    if (!lessonNames.has(lessonName) && !getProcessedInfo(lessonName)) {
+      removeLesson(lessonName);
+      log(`Removed incomplete lesson without a transcript: ${lessonName}`);
     }
-
-    recordProcessed(lessonName, mtime, size);
-    ingested += 1;
-    console.log(`Ingested: ${filename} (${chunks.length} chunks)`);
   }
 
-  console.log(
-    `Ingest complete. Ingested ${ingested}, skipped ${skipped}, total files ${srtFiles.length}.`,
+  let ingested = 0;
+  const progress = createProgress(
+    pending.length,
+    pending.reduce((sum, lesson) => sum + lesson.todo.length, 0),
+    options.quiet,
+  );
+
+  await mapWithConcurrency(pending, batching.concurrency, async (lesson) => {
+    let cached = 0;
+    try {
+      for (let i = 0; i < lesson.todo.length; i += batching.batchSize) {
+        const batch = lesson.todo.slice(i, i + batching.batchSize);
+        const result = await embed(batch.map((chunk) => chunk.text));
+        cached += result.cached;
+        // Each batch is staged as it completes, so an interrupted run resumes
+        stageChunks(
+          batch.map((chunk) => ({
+            lessonName: lesson.lessonName,
+            chunkIndex: chunk.chunkIndex,
+            startTime: chunk.start,
+            endTime: chunk.end,
+            startSeconds: chunk.startSeconds,
+            endSeconds: chunk.endSeconds,
+            text: chunk.text,
+            speakers: chunk.speakers,
+          })),
+          result.embeddings,
+        );
+        progress.chunksDone(batch.length);
+      }
+      commitStagedLesson(lesson.lessonName);
+      ingested += 1;
+      const cachedNote = cached > 0 ? `, ${cached} cached` : "";
+      progress.log(
+        `Ingested: ${lesson.filename} (${lesson.note}${cachedNote})`,
+        log,
+      );
+    } catch (error) {
+      failed += 1;
+      progress.log(
+        `Failed: ${lesson.filename} (${error instanceof Error ? error.message : error}); run the ingest again to resume it.`,
+        console.error,
+      );
+    } finally {
+      progress.fileDone();
+    }
+  });
+  progress.finish();
+
+  const failedNote = failed > 0 ? `, failed ${failed}` : "";
+  log(
+    `Ingest complete. Ingested ${ingested}, skipped ${skipped}${pruneNote}${failedNote}, total files ${transcriptFiles.length}.`,
   );
+
+  // Only lessons that were summarized before get a new summary
+  const stale = listStaleSummaries();
+  let summariesFailed = 0;
+  if (stale.length > 0 && options.summaryModel) {
+    log(`Refreshing ${stale.length} outdated summaries.`);
+    const result = await runSummarize({
+      lessons: stale,
+      model: options.summaryModel,
+      log,
+    });
+    summariesFailed = result.failed;
+  } else if (stale.length > 0) {
+    log(
+      `${stale.length} summaries are outdated; run --summarize to refresh them.`,
+    );
+  }
+
+  return {
+    ingested,
+    skipped,
+    failed,
+    renamed: pruned.renamed.size,
+    removed: pruned.removed,
+    total: transcriptFiles.length,
+    summariesFailed,
+  };
 }
@@ -0,0 +1,113 @@
+import type { LessonFilter } from "./db";
+
+function levenshteinDistance(a: string, b: string): number {
+  const aLen = a.length;
+  const bLen = b.length;
+  if (aLen === 0) return bLen;
+  if (bLen === 0) return aLen;
+
+  const matrix = Array.from({ length: aLen + 1 }, () =>
+    Array.from({ length: bLen + 1 }, () => 0),
+  );
+
+  for (let i = 0; i <= aLen; i++) matrix[i][0] = i;
+  for (let j = 0; j <= bLen; j++) matrix[0][j] = j;
+
+  for (let i = 1; i <= aLen; i++) {
+    for (let j = 1; j <= bLen; j++) {
+      const cost = a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + cost,
+      );
+    }
+  }
+
+  return matrix[aLen][bLen];
+}
+
+function lessonSimilarity(a: string, b: string): number {
+  const trimmedA = a.trim();
+  const trimmedB = b.trim();
+  if (!trimmedA || !trimmedB) return 0;
+  const aLower = trimmedA.toLowerCase();
+  const bLower = trimmedB.toLowerCase();
+  if (aLower === bLower) return 1;
+  if (aLower.includes(bLower) || bLower.includes(aLower)) return 0.95;
+  const distance = levenshteinDistance(aLower, bLower);
+  return 1 - distance / Math.max(aLower.length, bLower.length);
+}
+
+export function suggestLessons(input: string, available: string[]): string[] {
+  return available
+    .map((name) => ({ name, score: lessonSimilarity(input, name) }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5)
+    .map((entry) => entry.name);
+}
+
+export function describeUnknownLessons(
+  requested: string[],
+  available: string[],
+): string[] {
+  const invalid = requested.filter((lesson) => !available.includes(lesson));
+  if (invalid.length === 0) return [];
+
+  const lines = [`Unknown lesson(s): ${invalid.join(", ")}`];
+  invalid.forEach((lesson) => {
+    const suggestions = suggestLessons(lesson, available);
+    if (suggestions.length > 0) {
+      lines.push(`Did you mean: ${suggestions.join(", ")}?`);
+    }
+  });
+  return lines;
+}
+
+export function describeLessonFilter(filter: LessonFilter): string {
+  const parts = [
+    filter.course ? `course "${filter.course}"` : null,
+    filter.module ? `module "${filter.module}"` : null,
+    filter.tags?.length ? `tag ${filter.tags.join(" or ")}` : null,
+  ];
+  return parts.filter(Boolean).join(", ");
+}
+
+// A selector is a lesson ID, a folder (every lesson below it, e.g. a whole
+// module) or a bare lesson name that only one folder has
+export function resolveLessonSelectors(
+  selectors: string[],
+  available: string[],
+): { lessons: string[]; errors: string[] } {
+  const lessons = new Set<string>();
+  const unknown: string[] = [];
+  const ambiguous: string[] = [];
+
+  for (const selector of selectors) {
+    const path = selector.replace(/\/+$/, "");
+    if (available.includes(path)) {
+      lessons.add(path);
+      continue;
+    }
+    const inFolder = available.filter((name) => name.startsWith(`${path}/`));
+    const byName = available.filter(
+      (name) => name.slice(name.lastIndexOf("/") + 1) === path,
+    );
+    const matches = inFolder.length > 0 ? inFolder : byName;
+    if (inFolder.length === 0 && byName.length > 1) {
+      ambiguous.push(
+        `"${selector}" matches several lessons: ${byName.join(", ")}`,
+      );
+    } else if (matches.length === 0) {
+      unknown.push(selector);
+    } else {
+      matches.forEach((name) => lessons.add(name));
+    }
+  }
+
+  return {
+    lessons: Array.from(lessons),
+    errors: [...describeUnknownLessons(unknown, available), ...ambiguous],
+  };
+}
@@ -0,0 +1,460 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { describeIssues } from "./citations";
+import {
+  filterLessonsAcross,
+  listCollectionLessons,
+  listLessonsAcross,
+  openCollections,
+  resolveTextModels,
+  withEmbeddingModel,
+  type Collection,
+} from "./collections";
+import type { AppConfig } from "./config";
+import { getLessonChunks, initDb, withDatabase } from "./db";
+import {
+  describeLessonFilter,
+  describeUnknownLessons,
+  resolveLessonSelectors,
+} from "./lessons";
+import {
+  citedSourcesJson,
+  toSearchHitJson,
+  toSourceJson,
+  toVerificationJson,
+} from "./output";
+import type { TextModels } from "./providers";
+import { answerQuestion, searchTranscripts } from "./search";
+import { formatTimestamp, TIMESTAMP_PATTERN, timestampToSeconds } from "./srt";
+
+export type McpOptions = {
+  // Used when a tool call does not name its own collections
+  collections: Collection[];
+  modelOverrides: Partial<TextModels>;
+  config: AppConfig;
+};
+
+const sourceSchema = z.object({
+  index: z.number().describe("The [n] used to cite this source"),
+  collection: z.string().nullable(),
+  lesson: z.string(),
+  chunkId: z.number(),
+  chunkIndex: z.number(),
+  startTime: z.string().describe("hh:mm:ss"),
+  endTime: z.string().describe("hh:mm:ss"),
+  startSeconds: z.number(),
+  endSeconds: z.number(),
+  text: z.string(),
+  neighbor: z.boolean(),
+  speakers: z.array(z.string()),
+  title: z.string().nullable(),
+  url: z
+    .string()
+    .nullable()
+    .describe("Opens the lesson's video at this source"),
+  scores: z.object({
+    vectorDistance: z.number().nullable(),
+    bm25: z.number().nullable(),
+    rrf: z.number().nullable(),
+    rerank: z.number().nullable(),
+  }),
+});
+
+const collectionsInput = z
+  .array(z.string().min(1))
+  .min(1)
+  .optional()
+  .describe("Collections to use (default: the server's)");
+const lessonsInput = z
+  .array(z.string().min(1))
+  .min(1)
+  .optional()
+  .describe(
+    "Restrict to these lessons (names from list_lessons, or a folder for every lesson in it)",
+  );
+const lessonFilterInput = {
+  course: z.string().min(1).optional().describe("Only lessons of this course"),
+  module: z.string().min(1).optional().describe("Only lessons of this module"),
+  tags: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe("Only lessons with any of these tags"),
+};
+const speakersInput = z
+  .array(z.string().min(1))
+  .min(1)
+  .optional()
+  .describe("Only passages where one of these speakers talks");
+const timeInput = z
+  .union([
+    z.number().nonnegative(),
+    z.string().regex(TIMESTAMP_PATTERN, "Use seconds or [hh:]mm:ss"),
+  ])
+  .describe("Seconds (e.g. 95) or a timestamp (e.g. 01:35 or 00:01:35)");
+
+const rangeInput = {
+  from: timeInput
+    .optional()
+    .describe("Only passages after this time in each lesson"),
+  to: timeInput
+    .optional()
+    .describe("Only passages before this time in each lesson"),
+};
+
+function toSeconds(value: number | string): number {
+  return typeof value === "number" ? value : timestampToSeconds(value);
+}
+
+function rangeSeconds(input: { from?: number | string; to?: number | string }) {
+  return {
+    from: input.from === undefined ? undefined : toSeconds(input.from),
+    to: input.to === undefined ? undefined : toSeconds(input.to),
+  };
+}
+
+// Tool errors are reported to the agent instead of failing the request
+function toolError(message: string) {
+  return { isError: true, content: [{ type: "text" as const, text: message }] };
+}
+
+function toolResult<T extends Record<string, unknown>>(
+  text: string,
+  structuredContent: T,
+) {
+  return { content: [{ type: "text" as const, text }], structuredContent };
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function startMcpServer(options: McpOptions) {
+  for (const collection of options.collections) {
+    await withDatabase(collection.dbPath, () => initDb());
+  }
+
+  // Resolves lesson selectors (names or folders) and narrows them by
+  // metadata; throws when nothing matches
+  async function resolveLessons(
+    collections: Collection[],
+    input: {
+      lessons?: string[];
+      course?: string;
+      module?: string;
+      tags?: string[];
+    },
+  ) {
+    const filter = {
+      course: input.course,
+      module: input.module,
+      tags: input.tags,
+    };
+    let selected: string[] | undefined;
+    if (input.lessons) {
+      const resolved = resolveLessonSelectors(
+        input.lessons,
+        await listLessonsAcross(collections),
+      );
+      if (resolved.errors.length > 0) {
+        throw new Error(resolved.errors.join("\n"));
+      }
+      selected = resolved.lessons;
+    }
+    const lessons = await filterLessonsAcross(collections, selected, filter);
+    if (lessons && lessons.length === 0) {
+      throw new Error(`No lessons match ${describeLessonFilter(filter)}.`);
+    }
+    return lessons;
+  }
+
+  async function prepare(names?: string[], lessons?: string[]) {
+    const collections = names
+      ? (await openCollections(names)).map((collection) =>
+          withEmbeddingModel(collection, options.config.models.embedding),
+        )
+      : options.collections;
+    if (lessons) {
+      const unknown = describeUnknownLessons(
+        lessons,
+        await listLessonsAcross(collections),
+      );
+      if (unknown.length > 0) throw new Error(unknown.join("\n"));
+    }
+    return collections;
+  }
+
+  const server = new McpServer({ name: "transcript-rag", version: "1.0.0" });
+
+  server.registerTool(
+    "list_lessons",
+    {
+      title: "List lessons",
+      description: "List the lessons (transcripts) that have been ingested.",
+      inputSchema: { collections: collectionsInput },
+      outputSchema: {
+        lessons: z.array(
+          z.object({ collection: z.string(), lesson: z.string() }),
+        ),
+      },
+    },
+    async (input) => {
+      try {
+        const collections = await prepare(input.collections);
+        const lessons = [];
+        // Grouped by collection: lesson names contain "/" themselves
+        const sections: string[] = [];
+        for (const collection of collections) {
+          const names = await listCollectionLessons(collection);
+          if (names.length === 0) continue;
+          lessons.push(
+            ...names.map((lesson) => ({ collection: collection.name, lesson })),
+          );
+          sections.push(
+            [
+              `Lessons in ${collection.name}:`,
+              ...names.map((lesson) => `- ${lesson}`),
+            ].join("\n"),
+          );
+        }
+        const text =
+          lessons.length === 0
+            ? "No lessons found. Run --ingest first."
+            : sections.join("\n\n");
+        return toolResult(text, { lessons });
+      } catch (error) {
+        return toolError(errorMessage(error));
+      }
+    },
+  );
+
+  server.registerTool(
+    "search_transcripts",
+    {
+      title: "Search transcripts",
+      description:
+        "Find where something was said. Returns ranked transcript chunks with timestamps; no answer is generated.",
+      inputSchema: {
+        query: z.string().min(1),
+        topK: z.number().int().positive().max(100).optional(),
+        lessons: lessonsInput,
+        ...lessonFilterInput,
+        speakers: speakersInput,
+        ...rangeInput,
+        collections: collectionsInput,
+        lexical: z
+          .boolean()
+          .optional()
+          .describe("Keyword (BM25) matching only; needs no model"),
+        expand: z
+          .boolean()
+          .optional()
+          .describe("Include the chunks around each hit"),
+      },
+      outputSchema: {
+        query: z.string(),
+        hits: z.array(
+          sourceSchema.extend({
+            snippet: z
+              .string()
+              .nullable()
+              .describe("Matched terms wrapped in **"),
+          }),
+        ),
+      },
+    },
+    async (input) => {
+      try {
+        const collections = await prepare(input.collections);
+        const result = await searchTranscripts({
+          query: input.query,
+          topK: input.topK ?? 10,
+          lessons: await resolveLessons(collections, input),
+          speakers: input.speakers,
+          ...rangeSeconds(input),
+          collections,
+          lexical: input.lexical,
+          expand: input.expand,
+          params: options.config.retrieval,
+        });
+        const hits = result.hits.map(toSearchHitJson);
+        const text =
+          hits.length === 0
+            ? "No matches found."
+            : hits
+                .map(
+                  (hit) =>
+                    `[${hit.index}] ${hit.lesson} (${hit.startTime}-${hit.endTime}) ${hit.snippet ?? hit.text}`,
+                )
+                .join("\n");
+        return toolResult(text, { query: result.query, hits });
+      } catch (error) {
+        return toolError(errorMessage(error));
+      }
+    },
+  );
+
+  server.registerTool(
+    "ask_transcripts",
+    {
+      title: "Ask transcripts",
+      description:
+        "Answer a question from the transcripts. The answer cites sources as [n]; each source carries its lesson and timestamps.",
+      inputSchema: {
+        question: z.string().min(1),
+        topK: z.number().int().positive().max(100).optional(),
+        lessons: lessonsInput,
+        ...lessonFilterInput,
+        speakers: speakersInput,
+        ...rangeInput,
+        collections: collectionsInput,
+        strict: z
+          .boolean()
+          .optional()
+          .describe("Retry once, then fail if the citations do not check out"),
+      },
+      outputSchema: {
+        question: z.string(),
+        answer: z.string(),
+        sources: z.array(sourceSchema).describe("Only the cited sources"),
+        verification: z.object({
+          grounded: z.boolean(),
+          cited: z.array(z.number()),
+          issues: z.array(
+            z.object({
+              kind: z.enum([
+                "no_citations",
+                "out_of_range",
+                "uncited_claim",
+                "unverified_quote",
+              ]),
+              message: z.string(),
+              index: z.number().optional(),
+              text: z.string().optional(),
+            }),
+          ),
+        }),
+      },
+    },
+    async (input) => {
+      try {
+        const collections = await prepare(input.collections);
+        const result = await answerQuestion({
+          question: input.question,
+          topK: input.topK ?? 25,
+          lessons: await resolveLessons(collections, input),
+          speakers: input.speakers,
+          ...rangeSeconds(input),
+          collections,
+          models: resolveTextModels(
+            collections,
+            options.modelOverrides,
+            options.config.models,
+          ),
+          strict: input.strict,
+          params: options.config.retrieval,
+        });
+        if (!result) return toolError("No matches found.");
+        if (input.strict && !result.verification.grounded) {
+          return toolError(
+            `The answer failed the citation check:\n${describeIssues(result.verification.issues)}`,
+          );
+        }
+        const sources = citedSourcesJson(result.sources, result.verification);
+        const text = [
+          result.answer,
+          "",
+          "Sources:",
+          ...sources.map(
+            (source) =>
+              `[${source.index}] ${source.lesson} (${source.startTime}-${source.endTime})${source.url ? ` ${source.url}` : ""}`,
+          ),
+        ].join("\n");
+        return toolResult(text, {
+          question: result.question,
+          answer: result.answer,
+          sources,
+          verification: toVerificationJson(result.verification),
+        });
+      } catch (error) {
+        return toolError(errorMessage(error));
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_transcript_segment",
+    {
+      title: "Get transcript segment",
+      description:
+        "Read the transcript of one lesson between two timestamps, e.g. to quote or verify a source.",
+      inputSchema: {
+        lesson: z.string().min(1),
+        start: timeInput,
+        end: timeInput,
+        collection: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Collection holding the lesson (default: search all)"),
+      },
+      outputSchema: {
+        collection: z.string(),
+        lesson: z.string(),
+        startTime: z.string(),
+        endTime: z.string(),
+        chunks: z.array(sourceSchema),
+      },
+    },
+    async (input) => {
+      try {
+        const startSeconds = toSeconds(input.start);
+        const endSeconds = toSeconds(input.end);
+        if (endSeconds < startSeconds) {
+          return toolError("end must not be before start.");
+        }
+        const collections = await prepare(
+          input.collection ? [input.collection] : undefined,
+          [input.lesson],
+        );
+        for (const collection of collections) {
+          const chunks = await withDatabase(collection.dbPath, () =>
+            getLessonChunks(input.lesson, { startSeconds, endSeconds }),
+          );
+          const hasLesson =
+            chunks.length > 0 ||
+            (await listCollectionLessons(collection)).includes(input.lesson);
+          if (!hasLesson) continue;
+
+          const sources = chunks.map((chunk, idx) =>
+            toSourceJson({ ...chunk, collection: collection.name }, idx),
+          );
+          const text =
+            sources.length === 0
+              ? `Nothing was said in ${input.lesson} between ${formatTimestamp(startSeconds)} and ${formatTimestamp(endSeconds)}.`
+              : sources
+                  .map(
+                    (source) =>
+                      `(${source.startTime}-${source.endTime}) ${source.text}`,
+                  )
+                  .join("\n");
+          return toolResult(text, {
+            collection: collection.name,
+            lesson: input.lesson,
+            startTime: formatTimestamp(startSeconds),
+            endTime: formatTimestamp(endSeconds),
+            chunks: sources,
+          });
+        }
+        return toolError(`Unknown lesson "${input.lesson}".`);
+      } catch (error) {
+        return toolError(errorMessage(error));
+      }
+    },
+  );
+
+  // stdout carries the protocol, so status messages go to stderr
+  await server.connect(new StdioServerTransport());
+  console.error("transcript-rag MCP server running on stdio");
+}
@@ -0,0 +1,107 @@
+import { basename, join } from "node:path";
+import { z } from "zod";
+
+// Per-folder defaults and per-lesson entries
+export const MANIFEST_FILENAME = "lessons.json";
+// <lesson>.meta.json next to the transcript; wins over the manifest
+const SIDECAR_SUFFIX = ".meta.json";
+
+const metadataSchema = z
+  .object({
+    title: z.string().min(1),
+    course: z.string().min(1),
+    module: z.string().min(1),
+    order: z.number(),
+    tags: z.array(z.string().min(1)),
+    // {seconds} and {lesson} are filled in per citation
+    videoUrl: z.string().min(1),
+  })
+  .partial()
+  .strict();
+
+const manifestSchema = z
+  .object({
+    defaults: metadataSchema.optional(),
+    lessons: z.record(z.string(), metadataSchema).optional(),
+  })
+  .strict();
+
+export type LessonMetadata = z.infer<typeof metadataSchema>;
+
+type LessonManifest = z.infer<typeof manifestSchema>;
+
+// Manifests and sidecars share the directory (and .json) with transcripts
+export function isMetadataFile(path: string): boolean {
+  return basename(path) === MANIFEST_FILENAME || path.endsWith(SIDECAR_SUFFIX);
+}
+
+async function readMetadataFile<T>(
+  path: string,
+  schema: z.ZodType<T>,
+): Promise<T | null> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return null;
+  let raw: unknown;
+  try {
+    raw = await file.json();
+  } catch (error) {
+    throw new Error(
+      `Could not parse ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${path}:\n${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+// Returns a loader for one transcripts directory. Manifests apply from the
+// top folder down to the lesson's, deeper ones winning; their `lessons` keys
+// are relative to the manifest's folder.
+export function createMetadataLoader(transcriptsDir: string) {
+  const manifests = new Map<string, Promise<LessonManifest | null>>();
+  const manifestIn = (folder: string) => {
+    let manifest = manifests.get(folder);
+    if (!manifest) {
+      manifest = readMetadataFile(
+        join(transcriptsDir, folder, MANIFEST_FILENAME),
+        manifestSchema,
+      );
+      manifests.set(folder, manifest);
+    }
+    return manifest;
+  };
+
+  return async (lessonName: string): Promise<LessonMetadata> => {
+    const segments = lessonName.split("/");
+    let metadata: LessonMetadata = {};
+    for (let depth = 0; depth < segments.length; depth++) {
+      const manifest = await manifestIn(segments.slice(0, depth).join("/"));
+      metadata = {
+        ...metadata,
+        ...manifest?.defaults,
+        ...manifest?.lessons?.[segments.slice(depth).join("/")],
+      };
+    }
+    const sidecar = await readMetadataFile(
+      join(transcriptsDir, `${lessonName}${SIDECAR_SUFFIX}`),
+      metadataSchema,
+    );
+    return { ...metadata, ...sidecar };
+  };
+}
+
+// A template without {seconds} links to the start of the video
+export function lessonUrl(
+  template: string,
+  lessonName: string,
+  seconds: number,
+): string {
+  return template
+    .replaceAll(
+      "{lesson}",
+      lessonName.split("/").map(encodeURIComponent).join("/"),
+    )
+    .replaceAll("{seconds}", String(Math.max(0, Math.floor(seconds))));
+}
@@ -0,0 +1,83 @@
+import { Database } from "bun:sqlite";
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { migrate, SCHEMA_VERSION } from "./migrations";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "transcript-rag-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// The oldest schema migrate() upgrades in place
+function createV3Database(dbPath: string): Database {
+  const database = new Database(dbPath);
+  database.exec(`
+    CREATE TABLE processed_files (
+      id INTEGER PRIMARY KEY,
+      filename TEXT UNIQUE,
+      processed_at TEXT,
+      mtime INTEGER,
+      size INTEGER
+    );
+    CREATE TABLE chunks (
+      id INTEGER PRIMARY KEY,
+      lesson_name TEXT,
+      chunk_index INTEGER,
+      start_time TEXT,
+      end_time TEXT,
+      start_seconds REAL,
+      end_seconds REAL,
+      text TEXT
+    );
+    CREATE VIRTUAL TABLE chunks_fts USING fts5(
+      chunk_id UNINDEXED,
+      lesson_name UNINDEXED,
+      text
+    );
+    INSERT INTO processed_files (filename, processed_at, mtime, size)
+      VALUES ('intro', '2024-01-01', 1, 10);
+    PRAGMA user_version = 3;
+  `);
+  return database;
+}
+
+test("backs up the database before a risky migration", async () => {
+  const dbPath = join(dir, "index.db");
+  const database = createV3Database(dbPath);
+  await migrate(database, { dbPath });
+
+  const backups = (await readdir(dir)).filter((name) =>
+    name.startsWith("index.db.v3-"),
+  );
+  expect(backups).toHaveLength(1);
+  const backup = new Database(join(dir, backups[0]!), { readonly: true });
+  expect(backup.prepare("PRAGMA user_version").get()).toEqual({
+    user_version: 3,
+  });
+  expect(backup.prepare("SELECT filename FROM processed_files").all()).toEqual(
+    [{ filename: "intro" }],
+  );
+  backup.close();
+  expect(database.prepare("PRAGMA user_version").get()).toEqual({
+    user_version: SCHEMA_VERSION,
+  });
+  database.close();
+});
+
+test("does not back up a new database", async () => {
+  const dbPath = join(dir, "index.db");
+  const database = new Database(dbPath);
+  await migrate(database, { dbPath });
+  database.close();
+
+  expect((await readdir(dir)).filter((name) => name.endsWith(".bak"))).toEqual(
+    [],
+  );
+});
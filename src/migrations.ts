@@ -0,0 +1,399 @@
+import type { Database } from "bun:sqlite";
+
+export type Migration = {
+  version: number;
+  description: string;
+  // Risky migrations drop or delete data; the DB file is backed up first
+  risky?: boolean;
+  up: (database: Database) => void;
+};
+
+export type MigrateOptions = {
+  dbPath: string;
+  // Asked before dropping everything when no migration path exists
+  confirmRebuild?: (reason: string) => Promise<boolean>;
+};
+
+// Oldest schema the migrations below know how to upgrade from
+const BASE_SCHEMA_VERSION = 3;
+
+const migrations: Migration[] = [
+  {
+    version: 4,
+    description: "record the embedding model per index",
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS index_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        );
+      `);
+      // Version 3 indexes always used voyage-3-large through the gateway
+      if (tableExists(database, "vec_chunks")) {
+        const stmt = database.prepare(
+          "INSERT OR IGNORE INTO index_meta (key, value) VALUES (?, ?)",
+        );
+        stmt.run("embedding_provider", "gateway");
+        stmt.run("embedding_model", "voyage/voyage-3-large");
+        stmt.run("embedding_dimensions", "1024");
+      }
+    },
+  },
+  {
+    version: 5,
+    description: "index chunks by lesson and position",
+    up: (database) => {
+      database.exec(`
+        CREATE INDEX IF NOT EXISTS idx_chunks_lesson_index
+          ON chunks (lesson_name, chunk_index);
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "store chat sessions",
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS chat_sessions (
+          id INTEGER PRIMARY KEY,
+          name TEXT UNIQUE NOT NULL,
+          lessons TEXT,
+          top_k INTEGER,
+          created_at TEXT,
+          updated_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS chat_turns (
+          id INTEGER PRIMARY KEY,
+          session_id INTEGER NOT NULL
+            REFERENCES chat_sessions (id) ON DELETE CASCADE,
+          question TEXT,
+          standalone_query TEXT,
+          answer TEXT,
+          sources TEXT,
+          created_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_chat_turns_session
+          ON chat_turns (session_id, id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "record the chunking parameters per lesson",
+    up: (database) => {
+      addColumnIfMissing(database, "processed_files", "chunk_window", "REAL");
+      addColumnIfMissing(database, "processed_files", "chunk_overlap", "REAL");
+      // Lessons ingested so far used the old fixed 45s/10s windows
+      database.exec(`
+        UPDATE processed_files SET chunk_window = 45, chunk_overlap = 10;
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "record the chunking strategy per lesson",
+    risky: true,
+    up: (database) => {
+      addColumnIfMissing(database, "processed_files", "chunking", "TEXT");
+      database.exec(`
+        UPDATE processed_files
+          SET chunking = json_object(
+            'strategy', 'window',
+            'windowSeconds', chunk_window,
+            'overlapSeconds', chunk_overlap
+          )
+          WHERE chunk_window IS NOT NULL AND chunk_overlap IS NOT NULL;
+        ALTER TABLE processed_files DROP COLUMN chunk_window;
+        ALTER TABLE processed_files DROP COLUMN chunk_overlap;
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "track lessons whose ingest has not finished",
+    up: (database) => {
+      addColumnIfMissing(
+        database,
+        "processed_files",
+        "complete",
+        "INTEGER NOT NULL DEFAULT 1",
+      );
+    },
+  },
+  {
+    version: 10,
+    description: "stage re-ingested lessons before swapping them in",
+    risky: true,
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS staged_lessons (
+          lesson_name TEXT PRIMARY KEY,
+          mtime INTEGER,
+          size INTEGER,
+          chunking TEXT,
+          started_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS staged_chunks (
+          lesson_name TEXT NOT NULL
+            REFERENCES staged_lessons (lesson_name) ON DELETE CASCADE,
+          chunk_index INTEGER NOT NULL,
+          start_time TEXT,
+          end_time TEXT,
+          start_seconds REAL,
+          end_seconds REAL,
+          text TEXT,
+          embedding BLOB NOT NULL,
+          PRIMARY KEY (lesson_name, chunk_index)
+        );
+
+        -- Half-ingested lessons are re-ingested from scratch
+        DELETE FROM processed_files WHERE complete = 0;
+        ALTER TABLE processed_files DROP COLUMN complete;
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: "fingerprint files by content and cache embeddings",
+    up: (database) => {
+      addColumnIfMissing(database, "processed_files", "content_hash", "TEXT");
+      addColumnIfMissing(database, "staged_lessons", "content_hash", "TEXT");
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS embedding_cache (
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          dimensions INTEGER NOT NULL,
+          text_hash TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          PRIMARY KEY (provider, model, dimensions, text_hash)
+        ) WITHOUT ROWID;
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: "lesson metadata from sidecars and manifests",
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS lessons (
+          lesson_name TEXT PRIMARY KEY,
+          title TEXT,
+          course TEXT,
+          module TEXT,
+          sort_order REAL,
+          tags TEXT NOT NULL DEFAULT '[]',
+          video_url TEXT,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_lessons_course
+          ON lessons (course, module);
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: "speaker labels on chunks",
+    up: (database) => {
+      // JSON arrays; chunks ingested earlier have no speakers until re-ingested
+      addColumnIfMissing(
+        database,
+        "chunks",
+        "speakers",
+        "TEXT NOT NULL DEFAULT '[]'",
+      );
+      addColumnIfMissing(
+        database,
+        "staged_chunks",
+        "speakers",
+        "TEXT NOT NULL DEFAULT '[]'",
+      );
+    },
+  },
+  {
+    version: 14,
+    description: "lesson summaries and chapters",
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS lesson_summaries (
+          lesson_name TEXT PRIMARY KEY,
+          summary TEXT NOT NULL,
+          chapters TEXT NOT NULL DEFAULT '[]',
+          model TEXT NOT NULL,
+          -- The transcript's hash when summarized; a mismatch means stale
+          content_hash TEXT,
+          created_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION =
+  migrations[migrations.length - 1]?.version ?? BASE_SCHEMA_VERSION;
+
+export function tableExists(database: Database, name: string): boolean {
+  const row = database
+    .prepare("SELECT 1 FROM sqlite_master WHERE name = ? LIMIT 1")
+    .get(name);
+  return Boolean(row);
+}
+
+export function addColumnIfMissing(
+  database: Database,
+  table: string,
+  column: string,
+  definition: string,
+) {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as {
+    name: string;
+  }[];
+  if (columns.some((entry) => entry.name === column)) return;
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+function createBaseSchema(database: Database) {
+  // vec_chunks is created on first ingest, once the embedding size is known
+  database.exec(`
+    CREATE TABLE processed_files (
+      id INTEGER PRIMARY KEY,
+      filename TEXT UNIQUE,
+      processed_at TEXT,
+      mtime INTEGER,
+      size INTEGER
+    );
+
+    CREATE TABLE chunks (
+      id INTEGER PRIMARY KEY,
+      lesson_name TEXT,
+      chunk_index INTEGER,
+      start_time TEXT,
+      end_time TEXT,
+      start_seconds REAL,
+      end_seconds REAL,
+      text TEXT
+    );
+
+    CREATE VIRTUAL TABLE chunks_fts USING fts5(
+      chunk_id UNINDEXED,
+      lesson_name UNINDEXED,
+      text
+    );
+  `);
+  database.exec(`PRAGMA user_version = ${BASE_SCHEMA_VERSION};`);
+}
+
+function dropAllTables(database: Database) {
+  // Virtual tables first: dropping them also removes their shadow tables
+  const listTables = (virtual: boolean) =>
+    database
+      .prepare(
+        `SELECT name FROM sqlite_master
+         WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+           AND (sql LIKE 'CREATE VIRTUAL TABLE%') = ?`,
+      )
+      .all(virtual ? 1 : 0) as { name: string }[];
+
+  for (const virtual of [true, false]) {
+    for (const { name } of listTables(virtual)) {
+      database.exec(`DROP TABLE IF EXISTS "${name.replace(/"/g, '""')}"`);
+    }
+  }
+  database.exec("PRAGMA user_version = 0;");
+}
+
+function backupDatabase(
+  database: Database,
+  dbPath: string,
+  version: number,
+): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupPath = `${dbPath}.v${version}-${stamp}.bak`;
+  database.prepare("VACUUM INTO ?").run(backupPath);
+  return backupPath;
+}
+
+function isEmptyDatabase(database: Database): boolean {
+  const row = database
+    .prepare(
+      "SELECT COUNT(*) as count FROM sqlite_master WHERE name NOT LIKE 'sqlite_%'",
+    )
+    .get() as { count: number };
+  return row.count === 0;
+}
+
+async function rebuildDatabase(
+  database: Database,
+  version: number,
+  reason: string,
+  options: MigrateOptions,
+) {
+  const confirmed = options.confirmRebuild
+    ? await options.confirmRebuild(reason)
+    : false;
+  if (!confirmed) {
+    throw new Error(
+      `${reason} Rebuilding would clear all ingested data; re-run with --yes to allow it.`,
+    );
+  }
+  const backupPath = backupDatabase(database, options.dbPath, version);
+  console.warn(`Backed up database to ${backupPath} before rebuilding.`);
+  dropAllTables(database);
+  createBaseSchema(database);
+}
+
+function readVersion(database: Database): number {
+  const versionRow = database.prepare("PRAGMA user_version").get() as
+    { user_version: number } | undefined;
+  return versionRow?.user_version ?? 0;
+}
+
+export async function migrate(database: Database, options: MigrateOptions) {
+  let currentVersion = readVersion(database);
+  // A new database holds nothing worth backing up
+  const created = currentVersion === 0 && isEmptyDatabase(database);
+
+  if (created) {
+    createBaseSchema(database);
+    currentVersion = BASE_SCHEMA_VERSION;
+  } else if (currentVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this tool supports (${SCHEMA_VERSION}). Upgrade transcript-rag instead of downgrading the database.`,
+    );
+  } else if (currentVersion < BASE_SCHEMA_VERSION) {
+    await rebuildDatabase(
+      database,
+      currentVersion,
+      `Database schema version ${currentVersion} is too old to upgrade in place.`,
+      options,
+    );
+    currentVersion = BASE_SCHEMA_VERSION;
+  }
+
+  const pending = migrations.filter(
+    (migration) => migration.version > currentVersion,
+  );
+  if (pending.length === 0) return;
+
+  if (!created && pending.some((migration) => migration.risky)) {
+    const backupPath = backupDatabase(database, options.dbPath, currentVersion);
+    console.warn(`Backed up database to ${backupPath} before migrating.`);
+  }
+
+  for (const migration of pending) {
+    const apply = database.transaction(() => {
+      migration.up(database);
+      database.exec(`PRAGMA user_version = ${migration.version};`);
+    });
+    try {
+      apply();
+    } catch (error) {
+      throw new Error(
+        `Migration to schema version ${migration.version} (${migration.description}) failed; the database was left at version ${readVersion(database)}.`,
+        { cause: error },
+      );
+    }
+  }
+}
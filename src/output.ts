@@ -0,0 +1,325 @@
+import {
+  describeIssues,
+  verifyCitations,
+  type CitationReport,
+} from "./citations";
+import { HIGHLIGHT_END, HIGHLIGHT_START, type RetrievedChunk } from "./db";
+import {
+  lessonLabel,
+  type AnswerResult,
+  type AnswerStream,
+  type SearchHit,
+  type SearchResult,
+} from "./search";
+import type { TranscriptExcerpt } from "./show";
+import { formatTimestamp, speakerLabel } from "./srt";
+
+export type OutputFormat = "text" | "json" | "jsonl";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "jsonl"];
+
+// Stable exit codes for scripts and agents
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1,
+  noMatches: 2,
+  invalidInput: 3,
+  ungrounded: 4,
+  // 128 + SIGINT, as shells report Ctrl-C
+  interrupted: 130,
+} as const;
+
+export type ErrorCode = "ERROR" | "NO_MATCHES" | "INVALID_INPUT" | "UNGROUNDED";
+
+const ERROR_EXIT_CODES: Record<ErrorCode, number> = {
+  ERROR: EXIT_CODES.error,
+  NO_MATCHES: EXIT_CODES.noMatches,
+  INVALID_INPUT: EXIT_CODES.invalidInput,
+  UNGROUNDED: EXIT_CODES.ungrounded,
+};
+
+export type SourceJson = {
+  index: number;
+  collection: string | null;
+  lesson: string;
+  chunkId: number;
+  chunkIndex: number;
+  startTime: string;
+  endTime: string;
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+  neighbor: boolean;
+  speakers: string[];
+  title: string | null;
+  // Opens the lesson's video at startSeconds
+  url: string | null;
+  scores: {
+    vectorDistance: number | null;
+    bm25: number | null;
+    rrf: number | null;
+    rerank: number | null;
+  };
+};
+
+export function toSourceJson(chunk: RetrievedChunk, idx: number): SourceJson {
+  return {
+    index: idx + 1,
+    collection: chunk.collection ?? null,
+    lesson: chunk.lessonName,
+    chunkId: chunk.id,
+    chunkIndex: chunk.chunkIndex,
+    startTime: chunk.startTime,
+    endTime: chunk.endTime,
+    startSeconds: chunk.startSeconds,
+    endSeconds: chunk.endSeconds,
+    text: chunk.text,
+    neighbor: Boolean(chunk.neighbor),
+    speakers: chunk.speakers,
+    title: chunk.title ?? null,
+    url: chunk.url ?? null,
+    scores: {
+      vectorDistance: chunk.distance ?? null,
+      bm25: chunk.bm25 ?? null,
+      rrf: chunk.rrfScore ?? null,
+      rerank: chunk.rerankScore ?? null,
+    },
+  };
+}
+
+function renderHighlights(snippet: string, style: "ansi" | "markdown") {
+  const [open, close] =
+    style === "ansi" ? ["\x1b[1;33m", "\x1b[0m"] : ["**", "**"];
+  return snippet
+    .split(HIGHLIGHT_START)
+    .join(open)
+    .split(HIGHLIGHT_END)
+    .join(close);
+}
+
+// Lesson, title and time range, with the deep link when there is one
+function sourceHeading(chunk: RetrievedChunk, withCollection: boolean) {
+  const title = chunk.title ? ` "${chunk.title}"` : "";
+  const speakers =
+    chunk.speakers.length > 0 ? ` [${chunk.speakers.join(", ")}]` : "";
+  const link = chunk.url ? ` ${chunk.url}` : "";
+  return `${lessonLabel(chunk, withCollection)}${title} (${chunk.startTime}-${chunk.endTime})${speakers}${link}`;
+}
+
+function writeLine(value: unknown) {
+  process.stdout.write(`${JSON.stringify(value)}\n`);
+}
+
+export function printSources(
+  chunks: RetrievedChunk[],
+  withCollection: boolean,
+  // Only these 1-based indexes, keeping their numbers from the answer
+  cited?: number[],
+) {
+  const indexes = cited ?? chunks.map((_, idx) => idx + 1);
+  console.log(
+    cited
+      ? `\nSources (${cited.length} of ${chunks.length} cited):`
+      : "\nSources:",
+  );
+  for (const index of indexes) {
+    const chunk = chunks[index - 1];
+    if (!chunk) continue;
+    const preview =
+      chunk.text.length > 140 ? `${chunk.text.slice(0, 140)}...` : chunk.text;
+    console.log(
+      `[${index}] ${sourceHeading(chunk, withCollection)} :: ${preview}`,
+    );
+  }
+}
+
+export function citedSourcesJson(
+  sources: RetrievedChunk[],
+  report: CitationReport,
+): SourceJson[] {
+  return report.cited.flatMap((index) => {
+    const chunk = sources[index - 1];
+    return chunk ? [toSourceJson(chunk, index - 1)] : [];
+  });
+}
+
+export function toVerificationJson(report: CitationReport) {
+  return {
+    grounded: report.grounded,
+    cited: report.cited,
+    issues: report.issues,
+  };
+}
+
+export function printVerification(report: CitationReport) {
+  if (report.grounded) return;
+  console.error("\nCitation check:");
+  console.error(describeIssues(report.issues));
+}
+
+// jsonl emits sources as soon as retrieval finishes, before the answer
+export function printSourcesEvent(
+  chunks: RetrievedChunk[],
+  format: OutputFormat,
+) {
+  if (format !== "jsonl") return;
+  chunks.forEach((chunk, idx) =>
+    writeLine({ type: "source", ...toSourceJson(chunk, idx) }),
+  );
+}
+
+export function printAnswer(result: AnswerResult, format: OutputFormat) {
+  if (format === "json") {
+    writeLine({
+      question: result.question,
+      answer: result.answer,
+      sources: citedSourcesJson(result.sources, result.verification),
+      verification: toVerificationJson(result.verification),
+    });
+    return;
+  }
+  if (format === "jsonl") {
+    writeLine({
+      type: "answer",
+      question: result.question,
+      answer: result.answer,
+    });
+    writeLine({
+      type: "verification",
+      ...toVerificationJson(result.verification),
+    });
+    writeLine({ type: "done" });
+    return;
+  }
+
+  console.log("Answer:");
+  console.log(result.answer);
+  printSources(
+    result.sources,
+    result.collections.length > 1,
+    result.verification.cited,
+  );
+  printVerification(result.verification);
+}
+
+export function toSearchHitJson(hit: SearchHit, idx: number) {
+  return {
+    ...toSourceJson(hit, idx),
+    snippet: hit.snippet ? renderHighlights(hit.snippet, "markdown") : null,
+  };
+}
+
+// Writes tokens as they arrive, then the cited sources and any citation issues
+export async function printAnswerStream(
+  stream: AnswerStream,
+): Promise<CitationReport> {
+  console.log("Answer:");
+  let answer = "";
+  for await (const text of stream.textStream) {
+    // Models often open with blank lines; skip them so the header stays tight
+    const chunk = answer.length === 0 ? text.trimStart() : text;
+    answer += chunk;
+    process.stdout.write(chunk);
+  }
+  process.stdout.write("\n");
+  const report = verifyCitations(answer, stream.sources);
+  printSources(stream.sources, stream.collections.length > 1, report.cited);
+  printVerification(report);
+  return report;
+}
+
+export function printSearch(result: SearchResult, format: OutputFormat) {
+  const hits = result.hits.map(toSearchHitJson);
+
+  if (format === "json") {
+    writeLine({ query: result.query, hits });
+    return;
+  }
+  if (format === "jsonl") {
+    hits.forEach((hit) => writeLine({ type: "hit", ...hit }));
+    writeLine({ type: "done" });
+    return;
+  }
+
+  const style = process.stdout.isTTY ? "ansi" : "markdown";
+  const withCollection = result.collections.length > 1;
+  result.hits.forEach((hit, idx) => {
+    const scoreLabel = hit.neighbor
+      ? "neighbor"
+      : hit.rerankScore !== undefined
+        ? `rerank ${hit.rerankScore}`
+        : `rrf ${(hit.rrfScore ?? 0).toFixed(4)}`;
+    console.log(
+      `[${idx + 1}] ${sourceHeading(hit, withCollection)} ${scoreLabel}`,
+    );
+    const text = hit.snippet
+      ? renderHighlights(hit.snippet, style)
+      : hit.text.length > 200
+        ? `${hit.text.slice(0, 200)}...`
+        : hit.text;
+    console.log(`    ${text}\n`);
+  });
+}
+
+export function printExcerpt(excerpt: TranscriptExcerpt, format: OutputFormat) {
+  const cues = excerpt.cues.map((cue) => ({
+    startTime: cue.start,
+    endTime: cue.end,
+    startSeconds: cue.startSeconds,
+    endSeconds: cue.endSeconds,
+    speaker: cue.speaker ?? null,
+    text: cue.text,
+  }));
+
+  if (format === "json") {
+    writeLine({
+      collection: excerpt.collection,
+      lesson: excerpt.lesson,
+      title: excerpt.title,
+      url: excerpt.url,
+      at: excerpt.at,
+      from: excerpt.from,
+      to: excerpt.to,
+      cues,
+    });
+    return;
+  }
+  if (format === "jsonl") {
+    cues.forEach((cue) => writeLine({ type: "cue", ...cue }));
+    writeLine({ type: "done" });
+    return;
+  }
+
+  const title = excerpt.title ? ` "${excerpt.title}"` : "";
+  const link = excerpt.url ? ` ${excerpt.url}` : "";
+  console.log(
+    `${excerpt.lesson}${title} (${formatTimestamp(excerpt.from)}-${formatTimestamp(excerpt.to)})${link}`,
+  );
+  let speaker: string | undefined;
+  for (const cue of excerpt.cues) {
+    // Marks the cue being spoken at --at
+    const marker =
+      cue.startSeconds <= excerpt.at && excerpt.at < cue.endSeconds ? ">" : " ";
+    const label = speakerLabel(cue, speaker);
+    speaker = cue.speaker;
+    console.log(`${marker} [${cue.start}] ${label}${cue.text}`);
+  }
+}
+
+export function printError(
+  code: ErrorCode,
+  message: string,
+  format: OutputFormat,
+): number {
+  if (format === "text") {
+    if (code === "NO_MATCHES") {
+      console.log(message);
+    } else {
+      console.error(message);
+    }
+  } else {
+    const error = { code, message };
+    writeLine(format === "jsonl" ? { type: "error", error } : { error });
+  }
+  return ERROR_EXIT_CODES[code];
+}
@@ -0,0 +1,64 @@
+import { formatTimestamp, type SrtEntry } from "./srt";
+
+// Plain-text transcripts have no timing, so positions are estimated from an
+// average speaking rate. Display timestamps carry this prefix to mark them.
+export const APPROXIMATE_TIME_PREFIX = "~";
+
+const WORDS_PER_SECOND = 2.5;
+const MAX_WORDS_PER_ENTRY = 40;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function splitSentences(paragraph: string): string[] {
+  return paragraph.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) ?? [paragraph];
+}
+
+function groupSentences(paragraph: string): string[] {
+  // Keep entries short so long paragraphs still produce several chunks
+  const groups: string[] = [];
+  let current = "";
+  for (const sentence of splitSentences(paragraph)) {
+    const next = current ? `${current} ${sentence.trim()}` : sentence.trim();
+    if (current && countWords(next) > MAX_WORDS_PER_ENTRY) {
+      groups.push(current);
+      current = sentence.trim();
+    } else {
+      current = next;
+    }
+  }
+  if (current) groups.push(current);
+  return groups;
+}
+
+export function parsePlainText(content: string): SrtEntry[] {
+  const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  // Prefer blank-line paragraphs; fall back to one paragraph per line
+  const paragraphs = normalized.includes("\n\n")
+    ? normalized.split(/\n\s*\n/)
+    : normalized.split("\n");
+
+  const entries: SrtEntry[] = [];
+  let position = 0;
+
+  for (const paragraph of paragraphs) {
+    const text = paragraph.replace(/\s+/g, " ").trim();
+    if (!text) continue;
+
+    for (const group of groupSentences(text)) {
+      const startSeconds = position;
+      const endSeconds = position + countWords(group) / WORDS_PER_SECOND;
+      entries.push({
+        start: `${APPROXIMATE_TIME_PREFIX}${formatTimestamp(startSeconds)}`,
+        end: `${APPROXIMATE_TIME_PREFIX}${formatTimestamp(endSeconds)}`,
+        startSeconds,
+        endSeconds,
+        text: group,
+      });
+      position = endSeconds;
+    }
+  }
+
+  return entries;
+}
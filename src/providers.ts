@@ -0,0 +1,72 @@
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModel } from "ai";
+
+export type ProviderKind = "gateway" | "local" | "offline";
+
+export type ModelSpec = {
+  provider: ProviderKind;
+  model: string;
+};
+
+export type TextModels = {
+  answer: string;
+  rerank: string;
+};
+
+const DEFAULT_TEXT_MODEL = "google/gemini-3-flash";
+
+// Model specs are plain strings so they fit in env vars and CLI flags:
+//   "voyage/voyage-3-large"  -> AI gateway (needs AI_GATEWAY_API_KEY)
+//   "local:nomic-embed-text" -> OpenAI-compatible server at LOCAL_OPENAI_BASE_URL
+//   "offline:hash"           -> deterministic in-process embedder, no network
+const PREFIXES: [string, ProviderKind][] = [
+  ["local:", "local"],
+  ["offline:", "offline"],
+];
+
+export function parseModelSpec(spec: string): ModelSpec {
+  const trimmed = spec.trim();
+  for (const [prefix, provider] of PREFIXES) {
+    if (trimmed.startsWith(prefix)) {
+      return { provider, model: trimmed.slice(prefix.length) };
+    }
+  }
+  return { provider: "gateway", model: trimmed };
+}
+
+export function usesGateway(specs: string[]): boolean {
+  return specs.some((spec) => parseModelSpec(spec).provider === "gateway");
+}
+
+let localProvider: ReturnType<typeof createOpenAICompatible> | null = null;
+
+export function getLocalProvider() {
+  if (localProvider) return localProvider;
+  const baseURL = process.env.LOCAL_OPENAI_BASE_URL;
+  if (!baseURL) {
+    throw new Error("LOCAL_OPENAI_BASE_URL is required for local: models.");
+  }
+  localProvider = createOpenAICompatible({
+    name: "local",
+    baseURL,
+    apiKey: process.env.LOCAL_OPENAI_API_KEY || undefined,
+  });
+  return localProvider;
+}
+
+export function getTextModels(overrides: Partial<TextModels> = {}): TextModels {
+  return {
+    answer: overrides.answer || process.env.ANSWER_MODEL || DEFAULT_TEXT_MODEL,
+    rerank: overrides.rerank || process.env.RERANK_MODEL || DEFAULT_TEXT_MODEL,
+  };
+}
+
+export function resolveLanguageModel(spec: string): LanguageModel {
+  const { provider, model } = parseModelSpec(spec);
+  if (provider === "offline") {
+    throw new Error(
+      `${spec}: offline models only provide embeddings; use a gateway or local: model for answering and reranking.`,
+    );
+  }
+  return provider === "local" ? getLocalProvider().chatModel(model) : model;
+}
@@ -1,40 +1,161 @@
-import { generateText } from "ai";
-import { embedText } from "./embed";
+import { generateText, streamText } from "ai";
 import {
+  describeIssues,
+  verifyCitations,
+  type CitationReport,
+} from "./citations";
+import type { Collection } from "./collections";
+import { embedText, getEmbeddingProvider } from "./embed";
+import { lessonUrl } from "./metadata";
+import { resolveLanguageModel, type TextModels } from "./providers";
+import {
+  assertEmbeddingSpace,
   getChunksByLessonAndIndexes,
+  getLessonInfo,
+  getLessonSummaries,
+  getSnippets,
   initDb,
   queryBm25,
   queryVectorSimilar,
-  RetrievedChunk,
+  withDatabase,
+  type ChunkFilter,
+  type LessonSummary,
+  type RetrievedChunk,
 } from "./db";
 
 type AnswerOptions = {
   question: string;
-  transcriptsDir: string;
   topK: number;
   lessons?: string[];
+  speakers?: string[];
+  from?: number;
+  to?: number;
+  models: TextModels;
+  collections: Collection[];
+  // Called with the final context before the answer is generated
+  onSources?: (sources: RetrievedChunk[]) => void;
+  // Earlier chat turns, oldest first
+  history?: ChatTurn[];
+  // Standalone query to retrieve with instead of the question itself
+  retrievalQuery?: string;
+  // Regenerate once when citations do not check out
+  strict?: boolean;
+  params?: Partial<RetrievalParams>;
+};
+
+export type ChatTurn = {
+  question: string;
+  answer: string;
+  sources: RetrievedChunk[];
+};
+
+export type AnswerResult = {
+  question: string;
+  answer: string;
+  sources: RetrievedChunk[];
+  collections: string[];
+  verification: CitationReport;
+};
+
+export type RetrievalParams = {
+  vectorLimit: number;
+  bm25Limit: number;
+  rerankLimit: number;
+  rrfK: number;
+  neighborWindow: number;
+};
+
+// Tuned defaults; the config file, CLI flags and eval configurations override them
+export const DEFAULT_RETRIEVAL_PARAMS: RetrievalParams = {
+  vectorLimit: 50,
+  bm25Limit: 50,
+  rerankLimit: 30,
+  rrfK: 60,
+  neighborWindow: 1,
 };
+const HISTORY_TURNS = 6;
+const GROUNDING_RETRIES = 1;
+// Questions about what lessons cover as a whole, rather than a detail
+const BROAD_QUESTION_REGEX =
+  /\b(summar(y|ies|i[sz]e)|overview|outline|recap|gist|takeaways?|main (points|topics|ideas)|key (points|topics|ideas)|what (is|was|are) (this|that|the) (lessons?|videos?|course|module) about|what (does|do|did) .+ (cover|teach|go over))\b/i;
+const MAX_OVERVIEWS = 5;
+
+function chunkKey(chunk: RetrievedChunk): string {
+  // Chunk ids are only unique within one collection's database
+  return `${chunk.collection ?? ""}:${chunk.id}`;
+}
 
-const VECTOR_RETRIEVAL_LIMIT = 50;
-const BM25_RETRIEVAL_LIMIT = 50;
-const RERANK_LIMIT = 30;
-const RRF_K = 60;
-const NEIGHBOR_WINDOW = 1;
+function chunkLessonKey(chunk: RetrievedChunk): string {
+  return `${chunk.collection ?? ""}:${chunk.lessonName}`;
+}
+
+export function lessonLabel(
+  chunk: RetrievedChunk,
+  withCollection: boolean,
+): string {
+  return withCollection && chunk.collection
+    ? `${chunk.collection} / ${chunk.lessonName}`
+    : chunk.lessonName;
+}
 
-function buildPrompt(question: string, chunks: RetrievedChunk[]): string {
+function formatHistory(history: ChatTurn[]): string {
+  return history
+    .slice(-HISTORY_TURNS)
+    .map((turn) => {
+      const lessons = Array.from(
+        new Set(turn.sources.map((chunk) => chunk.lessonName)),
+      );
+      return `User: ${turn.question}\nAssistant: ${turn.answer}\n(Lessons used: ${lessons.join(", ") || "none"})`;
+    })
+    .join("\n\n");
+}
+
+// Lesson summaries shown next to the excerpts; the label matches the sources
+type LessonOverview = LessonSummary & { label: string };
+
+function formatOverviews(overviews: LessonOverview[]): string {
+  return overviews
+    .map((overview) => {
+      const chapters = overview.chapters
+        .map((chapter) => `- ${chapter.startTime} ${chapter.title}`)
+        .join("\n");
+      return `Lesson: ${overview.label}\n${overview.summary}${chapters ? `\nChapters:\n${chapters}` : ""}`;
+    })
+    .join("\n\n");
+}
+
+function buildPrompt(
+  question: string,
+  chunks: RetrievedChunk[],
+  withCollection: boolean,
+  history: ChatTurn[] = [],
+  overviews: LessonOverview[] = [],
+): string {
   const context = chunks
-    .map(
-      (chunk, idx) =>
-        `[${idx + 1}] Lesson: ${chunk.lessonName} (${chunk.startTime} - ${chunk.endTime})\n${chunk.text}`,
-    )
+    .map((chunk, idx) => {
+      // Chunk text carries "Name:" at each change of speaker
+      const speakers =
+        chunk.speakers.length > 0
+          ? `\nSpeakers: ${chunk.speakers.join(", ")}`
+          : "";
+      return `[${idx + 1}] Lesson: ${lessonLabel(chunk, withCollection)} (${chunk.startTime} - ${chunk.endTime})${speakers}\n${chunk.text}`;
+    })
     .join("\n\n");
+  const conversation =
+    history.length > 0
+      ? `\nConversation so far (for resolving references only):\n${formatHistory(history)}\n`
+      : "";
+  const lessonOverviews =
+    overviews.length > 0
+      ? `\nLesson overviews (to structure the answer; cite the excerpts below, not these):\n${formatOverviews(overviews)}\n`
+      : "";
 
   return `
 You are answering from transcript excerpts only.
-
+${conversation}
 Question:
 ${question}
-
+${lessonOverviews}
 Context (use these and nothing else):
 ${context}
 
@@ -42,51 +163,47 @@ Answer requirements:
 - Be concise and specific.
 - Quote or paraphrase only from the context.
 - Always cite sources as [index] with lesson name and timestamp (e.g., [2] Lesson (hh:mm:ss-hh:mm:ss)).
+- When excerpts label speakers ("Name: ..."), attribute statements to the right speaker.
 - If the answer is not in the context, say you don't know.
 `;
 }
 
-function printSources(chunks: RetrievedChunk[]) {
-  console.log("\nSources:");
-  chunks.forEach((chunk, idx) => {
-    const preview =
-      chunk.text.length > 140 ? `${chunk.text.slice(0, 140)}...` : chunk.text;
-    console.log(
-      `[${idx + 1}] ${chunk.lessonName} (${chunk.startTime}-${chunk.endTime}) :: ${preview}`,
-    );
-  });
-}
-
 function rrfCombine(
-  vectorMatches: RetrievedChunk[],
-  bm25Matches: RetrievedChunk[],
+  rankedLists: RetrievedChunk[][],
+  rrfK: number,
 ): RetrievedChunk[] {
-  const scores = new Map<number, { score: number; chunk: RetrievedChunk }>();
+  const scores = new Map<string, { score: number; chunk: RetrievedChunk }>();
 
   const addList = (list: RetrievedChunk[]) => {
     list.forEach((chunk, index) => {
       const rank = index + 1;
-      const rrfScore = 1 / (RRF_K + rank);
-      const existing = scores.get(chunk.id);
+      const rrfScore = 1 / (rrfK + rank);
+      const existing = scores.get(chunkKey(chunk));
       if (existing) {
         existing.score += rrfScore;
+        // Keep the vector distance and BM25 score from whichever list had them
+        existing.chunk = {
+          ...existing.chunk,
+          distance: existing.chunk.distance ?? chunk.distance,
+          bm25: existing.chunk.bm25 ?? chunk.bm25,
+        };
       } else {
-        scores.set(chunk.id, { score: rrfScore, chunk });
+        scores.set(chunkKey(chunk), { score: rrfScore, chunk });
       }
     });
   };
 
-  addList(vectorMatches);
-  addList(bm25Matches);
+  rankedLists.forEach(addList);
 
   return Array.from(scores.values())
     .sort((a, b) => b.score - a.score)
-    .map((entry) => entry.chunk);
+    .map((entry) => ({ ...entry.chunk, rrfScore: entry.score }));
 }
 
 async function rerankChunks(
   question: string,
   chunks: RetrievedChunk[],
+  model: string,
 ): Promise<RetrievedChunk[]> {
   if (chunks.length === 0) return chunks;
 
@@ -108,7 +225,7 @@ ${chunks
 
   try {
     const { text } = await generateText({
-      model: "google/gemini-3-flash",
+      model: resolveLanguageModel(model),
       prompt,
     });
 
@@ -135,18 +252,21 @@ ${chunks
       return a.order - b.order;
     });
 
-    return scored.map((entry) => entry.chunk);
+    return scored.map((entry) => ({
+      ...entry.chunk,
+      rerankScore: entry.score,
+    }));
   } catch {
     return chunks;
   }
 }
 
 function uniqueById(chunks: RetrievedChunk[]): RetrievedChunk[] {
-  const seen = new Set<number>();
+  const seen = new Set<string>();
   const result: RetrievedChunk[] = [];
   for (const chunk of chunks) {
-    if (seen.has(chunk.id)) continue;
-    seen.add(chunk.id);
+    if (seen.has(chunkKey(chunk))) continue;
+    seen.add(chunkKey(chunk));
     result.push(chunk);
   }
   return result;
@@ -154,6 +274,9 @@ function uniqueById(chunks: RetrievedChunk[]): RetrievedChunk[] {
 
 function sortByLessonAndIndex(chunks: RetrievedChunk[]): RetrievedChunk[] {
   return [...chunks].sort((a, b) => {
+    if (a.collection !== b.collection) {
+      return (a.collection ?? "").localeCompare(b.collection ?? "");
+    }
     if (a.lessonName !== b.lessonName) {
       return a.lessonName.localeCompare(b.lessonName);
     }
@@ -177,60 +300,437 @@ function collectNeighborIndexes(chunks: RetrievedChunk[], window: number) {
   return map;
 }
 
-function expandNeighbors(
+export async function expandNeighbors(
   chunks: RetrievedChunk[],
   window: number,
-): RetrievedChunk[] {
+  collections: Collection[],
+): Promise<RetrievedChunk[]> {
   if (window <= 0 || chunks.length === 0) return chunks;
 
-  const neighborMap = collectNeighborIndexes(chunks, window);
   const neighbors: RetrievedChunk[] = [];
 
-  for (const [lessonName, indexes] of neighborMap.entries()) {
-    const fetched = getChunksByLessonAndIndexes(
-      lessonName,
-      Array.from(indexes),
+  for (const collection of collections) {
+    const inCollection = chunks.filter(
+      (chunk) => chunk.collection === collection.name,
     );
-    neighbors.push(...fetched);
+    if (inCollection.length === 0) continue;
+
+    const neighborMap = collectNeighborIndexes(inCollection, window);
+    await withDatabase(collection.dbPath, async () => {
+      await initDb();
+      for (const [lessonName, indexes] of neighborMap.entries()) {
+        const fetched = getChunksByLessonAndIndexes(
+          lessonName,
+          Array.from(indexes),
+        );
+        neighbors.push(
+          ...fetched.map((chunk) => ({
+            ...chunk,
+            collection: collection.name,
+            neighbor: true,
+          })),
+        );
+      }
+    });
   }
 
   const combined = uniqueById([...chunks, ...neighbors]);
   return sortByLessonAndIndex(combined);
 }
 
-export async function answerQuestion(options: AnswerOptions) {
-  await initDb();
+type CollectionMatches = {
+  vector: RetrievedChunk[];
+  bm25: RetrievedChunk[];
+};
+
+function retrieveFromCollection(
+  collection: Collection,
+  query: string,
+  filter: ChunkFilter,
+  lexical: boolean,
+  params: RetrievalParams,
+): Promise<CollectionMatches> {
+  return withDatabase(collection.dbPath, async () => {
+    await initDb();
+
+    const bm25Matches = queryBm25(query, params.bm25Limit, filter);
+    const tag = (list: RetrievedChunk[]) =>
+      list.map((chunk) => ({ ...chunk, collection: collection.name }));
+    if (lexical) return { vector: [], bm25: tag(bm25Matches) };
+
+    const embeddingModel = collection.settings.embeddingModel;
+    const provider = await getEmbeddingProvider(embeddingModel);
+    assertEmbeddingSpace(provider);
+
+    const queryEmbedding = await embedText(query, "query", embeddingModel);
+    const vectorMatches = queryVectorSimilar(
+      queryEmbedding,
+      params.vectorLimit,
+      filter,
+    );
+
+    return { vector: tag(vectorMatches), bm25: tag(bm25Matches) };
+  });
+}
+
+type RetrieveOptions = {
+  query: string;
+  topK: number;
+  lessons?: string[];
+  // Only chunks where one of these speaks
+  speakers?: string[];
+  // Seconds into each lesson
+  from?: number;
+  to?: number;
+  collections: Collection[];
+  // BM25 only: no embedding request, works without network
+  lexical?: boolean;
+  // Rerank the top candidates with this model when set
+  rerankModel?: string;
+  neighborWindow: number;
+  params?: Partial<RetrievalParams>;
+};
+
+// Ranked candidates after each stage, best first
+export type RetrievalStages = {
+  vector: RetrievedChunk[];
+  bm25: RetrievedChunk[];
+  rrf: RetrievedChunk[];
+  // Only when a rerank model was given
+  rerank: RetrievedChunk[] | null;
+};
+
+export async function retrieveStages(
+  options: Omit<RetrieveOptions, "topK" | "neighborWindow">,
+): Promise<RetrievalStages> {
+  const params = { ...DEFAULT_RETRIEVAL_PARAMS, ...options.params };
+  const matches: CollectionMatches[] = [];
+  for (const collection of options.collections) {
+    matches.push(
+      await retrieveFromCollection(
+        collection,
+        options.query,
+        {
+          lessons: options.lessons,
+          speakers: options.speakers,
+          from: options.from,
+          to: options.to,
+        },
+        Boolean(options.lexical),
+        params,
+      ),
+    );
+  }
 
-  const queryEmbedding = await embedText(options.question, "query");
-  const vectorMatches = queryVectorSimilar(
-    queryEmbedding,
-    VECTOR_RETRIEVAL_LIMIT,
-    options.lessons,
+  // Per-collection lists are fused by rank; scores are not comparable
+  const fuse = (lists: RetrievedChunk[][]) =>
+    lists.length === 1 ? (lists[0] ?? []) : rrfCombine(lists, params.rrfK);
+  const vectorLists = matches.map((match) => match.vector);
+  const bm25Lists = matches.map((match) => match.bm25);
+  const rrf = rrfCombine(
+    [...vectorLists, ...bm25Lists].filter((list) => list.length > 0),
+    params.rrfK,
   );
-  const bm25Matches = queryBm25(
-    options.question,
-    BM25_RETRIEVAL_LIMIT,
-    options.lessons,
+
+  const rerank =
+    options.rerankModel && rrf.length > 0
+      ? await rerankChunks(
+          options.query,
+          rrf.slice(0, params.rerankLimit),
+          options.rerankModel,
+        )
+      : null;
+
+  return {
+    vector: fuse(vectorLists),
+    bm25: fuse(bm25Lists),
+    rrf,
+    rerank,
+  };
+}
+
+// Adds titles and links to the cited moment from each lesson's metadata
+async function withLessonLinks(
+  chunks: RetrievedChunk[],
+  collections: Collection[],
+): Promise<RetrievedChunk[]> {
+  const result = [...chunks];
+  for (const collection of collections) {
+    const inCollection = chunks.filter(
+      (chunk) => chunk.collection === collection.name,
+    );
+    if (inCollection.length === 0) continue;
+    const info = await withDatabase(collection.dbPath, async () => {
+      await initDb();
+      return getLessonInfo(
+        Array.from(new Set(inCollection.map((chunk) => chunk.lessonName))),
+      );
+    });
+    result.forEach((chunk, idx) => {
+      const lesson = info.get(chunk.lessonName);
+      if (chunk.collection !== collection.name || !lesson) return;
+      result[idx] = {
+        ...chunk,
+        title: lesson.title ?? undefined,
+        url: lesson.videoUrl
+          ? lessonUrl(lesson.videoUrl, chunk.lessonName, chunk.startSeconds)
+          : undefined,
+      };
+    });
+  }
+  return result;
+}
+
+export async function retrieveChunks(
+  options: RetrieveOptions,
+): Promise<RetrievedChunk[]> {
+  const stages = await retrieveStages(options);
+  const ranked = stages.rerank ?? stages.rrf;
+  if (ranked.length === 0) return [];
+
+  const topK = ranked.slice(0, options.topK);
+  const expanded = await expandNeighbors(
+    topK,
+    options.neighborWindow,
+    options.collections,
+  );
+  return withLessonLinks(expanded, options.collections);
+}
+
+export type SearchHit = RetrievedChunk & {
+  // FTS5 snippet with HIGHLIGHT_START/END around matched terms
+  snippet: string | null;
+};
+
+export type SearchResult = {
+  query: string;
+  hits: SearchHit[];
+  collections: string[];
+};
+
+type SearchOptions = Omit<RetrieveOptions, "neighborWindow"> & {
+  expand?: boolean;
+};
+
+export async function searchTranscripts(
+  options: SearchOptions,
+): Promise<SearchResult> {
+  const chunks = await retrieveChunks({
+    ...options,
+    neighborWindow: options.expand
+      ? (options.params?.neighborWindow ??
+        DEFAULT_RETRIEVAL_PARAMS.neighborWindow)
+      : 0,
+  });
+
+  const hits: SearchHit[] = [];
+  for (const collection of options.collections) {
+    const inCollection = chunks.filter(
+      (chunk) => chunk.collection === collection.name,
+    );
+    if (inCollection.length === 0) continue;
+    const snippets = await withDatabase(collection.dbPath, async () => {
+      await initDb();
+      return getSnippets(
+        options.query,
+        inCollection.map((chunk) => chunk.id),
+      );
+    });
+    hits.push(
+      ...inCollection.map((chunk) => ({
+        ...chunk,
+        snippet: snippets.get(chunk.id) ?? null,
+      })),
+    );
+  }
+
+  // Keep retrieval order (expansion already sorted by lesson when enabled)
+  const order = new Map(chunks.map((chunk, idx) => [chunkKey(chunk), idx]));
+  hits.sort(
+    (a, b) => (order.get(chunkKey(a)) ?? 0) - (order.get(chunkKey(b)) ?? 0),
   );
-  const combined = rrfCombine(vectorMatches, bm25Matches);
 
-  if (combined.length === 0) {
-    console.log("No matches found.");
-    return;
+  return {
+    query: options.query,
+    hits,
+    collections: options.collections.map((collection) => collection.name),
+  };
+}
+
+export async function rewriteQuestion(
+  question: string,
+  history: ChatTurn[],
+  model: string,
+): Promise<string> {
+  if (history.length === 0) return question;
+
+  const prompt = `
+Rewrite the follow-up question into a standalone search query for a transcript index.
+Resolve pronouns and references ("that", "the second lesson", "after that") using the conversation.
+Keep lesson names and key terms. Return only the query, nothing else.
+
+Conversation:
+${formatHistory(history)}
+
+Follow-up question:
+${question}
+`;
+
+  try {
+    const { text } = await generateText({
+      model: resolveLanguageModel(model),
+      prompt,
+    });
+    const rewritten = text.trim().replace(/^["']|["']$/g, "");
+    return rewritten.length > 0 ? rewritten : question;
+  } catch {
+    // Retrieval still works on the raw question, just less precisely
+    return question;
+  }
+}
+
+// Up-to-date summaries of the lessons the sources come from, most cited first
+async function lessonOverviews(
+  sources: RetrievedChunk[],
+  collections: Collection[],
+): Promise<LessonOverview[]> {
+  const counts = new Map<string, number>();
+  for (const chunk of sources) {
+    const key = chunkLessonKey(chunk);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const withCollection = collections.length > 1;
+  const ranked: { overview: LessonOverview; count: number }[] = [];
+  for (const collection of collections) {
+    const inCollection = sources.filter(
+      (chunk) => chunk.collection === collection.name,
+    );
+    if (inCollection.length === 0) continue;
+    const summaries = await withDatabase(collection.dbPath, async () => {
+      await initDb();
+      return getLessonSummaries(
+        Array.from(new Set(inCollection.map((chunk) => chunk.lessonName))),
+      );
+    });
+    for (const summary of summaries.values()) {
+      if (summary.stale) continue;
+      const chunk = inCollection.find(
+        (source) => source.lessonName === summary.lessonName,
+      )!;
+      ranked.push({
+        overview: { ...summary, label: lessonLabel(chunk, withCollection) },
+        count: counts.get(chunkLessonKey(chunk)) ?? 0,
+      });
+    }
+  }
+  return ranked
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_OVERVIEWS)
+    .map((entry) => entry.overview);
+}
+
+async function prepareAnswer(options: AnswerOptions) {
+  const sources = await retrieveChunks({
+    query: options.retrievalQuery ?? options.question,
+    topK: options.topK,
+    lessons: options.lessons,
+    speakers: options.speakers,
+    from: options.from,
+    to: options.to,
+    collections: options.collections,
+    rerankModel: options.models.rerank,
+    neighborWindow:
+      options.params?.neighborWindow ?? DEFAULT_RETRIEVAL_PARAMS.neighborWindow,
+    params: options.params,
+  });
+
+  if (sources.length === 0) return null;
+
+  options.onSources?.(sources);
+  const withCollection = options.collections.length > 1;
+  // Broad questions get the lessons' summaries next to the excerpts
+  const overviews = BROAD_QUESTION_REGEX.test(options.question)
+    ? await lessonOverviews(sources, options.collections)
+    : [];
+  return {
+    sources,
+    prompt: buildPrompt(
+      options.question,
+      sources,
+      withCollection,
+      options.history,
+      overviews,
+    ),
+    collections: options.collections.map((collection) => collection.name),
+  };
+}
+
+export async function answerQuestion(
+  options: AnswerOptions,
+): Promise<AnswerResult | null> {
+  const prepared = await prepareAnswer(options);
+  if (!prepared) return null;
+
+  const model = resolveLanguageModel(options.models.answer);
+  let prompt = prepared.prompt;
+  let answer = "";
+  let verification: CitationReport;
+  for (let attempt = 0; ; attempt++) {
+    const { text } = await generateText({ model, prompt });
+    answer = text.trim();
+    verification = verifyCitations(answer, prepared.sources);
+    if (verification.grounded || !options.strict) break;
+    if (attempt >= GROUNDING_RETRIES) break;
+    prompt = `${prepared.prompt}
+Your previous answer failed the citation check:
+${describeIssues(verification.issues)}
+
+Previous answer:
+${answer}
+
+Rewrite the answer so every claim cites an existing [index] and every quote is copied exactly from the cited excerpt. Drop anything you cannot support.
+`;
   }
 
-  const candidates = combined.slice(0, RERANK_LIMIT);
-  const reranked = await rerankChunks(options.question, candidates);
-  const topK = reranked.slice(0, options.topK);
-  const expanded = expandNeighbors(topK, NEIGHBOR_WINDOW);
-  const prompt = buildPrompt(options.question, expanded);
+  return {
+    question: options.question,
+    answer,
+    sources: prepared.sources,
+    collections: prepared.collections,
+    verification,
+  };
+}
 
-  const { text } = await generateText({
-    model: "google/gemini-3-flash",
-    prompt,
+export type AnswerStream = Omit<AnswerResult, "answer" | "verification"> & {
+  textStream: AsyncIterable<string>;
+};
+
+async function* textDeltas(
+  parts: AsyncIterable<{ type: string; text?: string; error?: unknown }>,
+) {
+  for await (const part of parts) {
+    if (part.type === "text-delta" && part.text) yield part.text;
+    if (part.type === "error") throw part.error;
+    if (part.type === "abort") throw new Error("Answer generation aborted.");
+  }
+}
+
+export async function streamAnswer(
+  options: AnswerOptions & { abortSignal?: AbortSignal },
+): Promise<AnswerStream | null> {
+  const prepared = await prepareAnswer(options);
+  if (!prepared) return null;
+
+  const result = streamText({
+    model: resolveLanguageModel(options.models.answer),
+    prompt: prepared.prompt,
+    abortSignal: options.abortSignal,
   });
 
-  console.log("Answer:");
-  console.log(text.trim());
-  printSources(expanded);
+  return {
+    question: options.question,
+    sources: prepared.sources,
+    collections: prepared.collections,
+    textStream: textDeltas(result.fullStream),
+  };
 }
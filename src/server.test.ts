@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Collection } from "./collections";
+import { loadConfig } from "./config";
+import { closeDb, withDatabase } from "./db";
+import { runIngest } from "./ingest";
+import { startServer } from "./server";
+
+const SRT = `1
+00:00:00,000 --> 00:00:04,000
+Welcome to the first module.
+
+2
+00:00:04,000 --> 00:00:08,000
+We start with the basics.
+`;
+
+let dir: string;
+let collection: Collection;
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "transcript-rag-"));
+  const transcriptsDir = join(dir, "transcripts");
+  await mkdir(join(transcriptsDir, "module-1"), { recursive: true });
+  await Bun.write(join(transcriptsDir, "module-1", "intro.srt"), SRT);
+
+  collection = {
+    name: "test",
+    transcriptsDir,
+    dbPath: join(dir, "index.db"),
+    settings: { embeddingModel: "offline:hash" },
+    createdAt: "",
+  };
+  // An empty settings file keeps a local config out of the test
+  const configPath = join(dir, "config.json");
+  await Bun.write(configPath, "{}");
+  const config = await loadConfig(configPath, {
+    transcripts: { recursive: true },
+  });
+  await withDatabase(collection.dbPath, () =>
+    runIngest({
+      transcriptsDir,
+      force: false,
+      embeddingModel: "offline:hash",
+      chunking: config.chunking,
+      selection: config.transcripts,
+      quiet: true,
+    }),
+  );
+  server = await startServer({
+    port: 0,
+    hostname: "127.0.0.1",
+    collections: [collection],
+    modelOverrides: {},
+    config,
+  });
+});
+
+afterAll(async () => {
+  server.stop(true);
+  closeDb(collection.dbPath);
+  await rm(dir, { recursive: true, force: true });
+});
+
+test("GET /lessons/:name finds a lesson in a nested folder", async () => {
+  for (const path of ["module-1/intro", "module-1%2Fintro"]) {
+    const response = await fetch(new URL(`/lessons/${path}`, server.url));
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as {
+      lesson: string;
+      chunkCount: number;
+    };
+    expect(body.lesson).toBe("module-1/intro");
+    expect(body.chunkCount).toBeGreaterThan(0);
+  }
+});
+
+test("GET /lessons/:name returns 404 for an unknown lesson", async () => {
+  const response = await fetch(new URL("/lessons/module-1/nope", server.url));
+  expect(response.status).toBe(404);
+});
@@ -0,0 +1,485 @@
+import { z } from "zod";
+import { describeIssues, verifyCitations } from "./citations";
+import {
+  filterLessonsAcross,
+  listCollectionLessons,
+  listLessonsAcross,
+  openCollections,
+  resolveTextModels,
+  withEmbeddingModel,
+} from "./collections";
+import type { Collection } from "./collections";
+import type { AppConfig } from "./config";
+import { getLessonChunks, getLessonInfo, initDb, withDatabase } from "./db";
+import { runIngest } from "./ingest";
+import { describeLessonFilter, resolveLessonSelectors } from "./lessons";
+import {
+  citedSourcesJson,
+  toSearchHitJson,
+  toSourceJson,
+  toVerificationJson,
+} from "./output";
+import { usesGateway, type TextModels } from "./providers";
+import { answerQuestion, searchTranscripts, streamAnswer } from "./search";
+import { TIMESTAMP_PATTERN, timestampToSeconds } from "./srt";
+
+export type ServeOptions = {
+  port: number;
+  hostname: string;
+  // Used when a request does not name its own collections
+  collections: Collection[];
+  modelOverrides: Partial<TextModels>;
+  config: AppConfig;
+};
+
+type ErrorCode =
+  | "INVALID_INPUT"
+  | "NOT_FOUND"
+  | "NO_MATCHES"
+  | "BUSY"
+  | "UNGROUNDED"
+  | "ERROR";
+
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_INPUT: 400,
+  NOT_FOUND: 404,
+  NO_MATCHES: 404,
+  BUSY: 409,
+  UNGROUNDED: 422,
+  ERROR: 500,
+};
+
+class HttpError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const collectionsField = z.array(z.string().min(1)).min(1).optional();
+const lessonsField = z.array(z.string().min(1)).min(1).optional();
+const speakersField = z.array(z.string().min(1)).min(1).optional();
+// Seconds into each lesson, or a [hh:]mm:ss timestamp
+const timeField = z
+  .union([
+    z.number().nonnegative(),
+    z.string().regex(TIMESTAMP_PATTERN, "Use seconds or [hh:]mm:ss"),
+  ])
+  .transform((value) =>
+    typeof value === "number" ? value : timestampToSeconds(value),
+  )
+  .optional();
+// Narrow by lesson metadata
+const lessonFilterFields = {
+  course: z.string().min(1).optional(),
+  module: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).min(1).optional(),
+};
+
+const askSchema = z.object({
+  question: z.string().trim().min(1),
+  topK: z.number().int().positive().max(200).default(25),
+  lessons: lessonsField,
+  ...lessonFilterFields,
+  speakers: speakersField,
+  from: timeField,
+  to: timeField,
+  collections: collectionsField,
+  strict: z.boolean().default(false),
+});
+
+const searchSchema = z.object({
+  query: z.string().trim().min(1),
+  topK: z.number().int().positive().max(200).default(10),
+  lessons: lessonsField,
+  ...lessonFilterFields,
+  speakers: speakersField,
+  from: timeField,
+  to: timeField,
+  collections: collectionsField,
+  lexical: z.boolean().default(false),
+  rerank: z.boolean().default(false),
+  expand: z.boolean().default(false),
+});
+
+const ingestSchema = z.object({
+  collection: z.string().min(1).optional(),
+  force: z.boolean().default(false),
+  prune: z.boolean().default(false),
+});
+
+function errorResponse(code: ErrorCode, message: string) {
+  return Response.json(
+    { error: { code, message } },
+    { status: ERROR_STATUS[code] },
+  );
+}
+
+async function readBody<T extends z.ZodType>(
+  req: Request,
+  schema: T,
+): Promise<z.infer<T>> {
+  let raw: unknown;
+  try {
+    const text = await req.text();
+    raw = text.trim().length === 0 ? {} : JSON.parse(text);
+  } catch {
+    throw new HttpError("INVALID_INPUT", "Request body must be valid JSON.");
+  }
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw new HttpError("INVALID_INPUT", z.prettifyError(parsed.error));
+  }
+  return parsed.data;
+}
+
+// Wraps a handler so thrown errors become JSON error responses
+function handle(fn: (req: Request) => Promise<Response>) {
+  return async (req: Request) => {
+    try {
+      return await fn(req);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return errorResponse(error.code, error.message);
+      }
+      console.error(
+        `${req.method} ${new URL(req.url).pathname} failed:`,
+        error,
+      );
+      return errorResponse(
+        "ERROR",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  };
+}
+
+export async function startServer(options: ServeOptions) {
+  // Open and migrate every database once; requests reuse the connections
+  for (const collection of options.collections) {
+    await withDatabase(collection.dbPath, () => initDb());
+  }
+
+  let ingestInProgress: string | null = null;
+
+  async function resolveCollections(names?: string[]): Promise<Collection[]> {
+    if (!names) return options.collections;
+    try {
+      return (await openCollections(names)).map((collection) =>
+        withEmbeddingModel(collection, options.config.models.embedding),
+      );
+    } catch (error) {
+      throw new HttpError(
+        "NOT_FOUND",
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  async function resolveLessons(
+    body: z.infer<typeof searchSchema> | z.infer<typeof askSchema>,
+    collections: Collection[],
+  ) {
+    let selected: string[] | undefined;
+    if (body.lessons) {
+      const available = await listLessonsAcross(collections);
+      if (available.length === 0) {
+        throw new HttpError(
+          "NOT_FOUND",
+          "No lessons found. Run an ingest first.",
+        );
+      }
+      const resolved = resolveLessonSelectors(body.lessons, available);
+      if (resolved.errors.length > 0) {
+        throw new HttpError("INVALID_INPUT", resolved.errors.join("\n"));
+      }
+      selected = resolved.lessons;
+    }
+    const filter = {
+      course: body.course,
+      module: body.module,
+      tags: body.tags,
+    };
+    const lessons = await filterLessonsAcross(collections, selected, filter);
+    if (lessons && lessons.length === 0) {
+      throw new HttpError(
+        "INVALID_INPUT",
+        `No lessons match ${describeLessonFilter(filter)}.`,
+      );
+    }
+    return lessons;
+  }
+
+  function collectionsFromQuery(req: Request) {
+    const value = new URL(req.url).searchParams.get("collection");
+    return value
+      ? value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean)
+      : undefined;
+  }
+
+  async function prepareAsk(req: Request) {
+    const body = await readBody(req, askSchema);
+    const collections = await resolveCollections(body.collections);
+    const lessons = await resolveLessons(body, collections);
+    return {
+      question: body.question,
+      topK: body.topK,
+      lessons,
+      speakers: body.speakers,
+      from: body.from,
+      to: body.to,
+      collections,
+      models: resolveTextModels(
+        collections,
+        options.modelOverrides,
+        options.config.models,
+      ),
+      strict: body.strict,
+      params: options.config.retrieval,
+    };
+  }
+
+  const server = Bun.serve({
+    port: options.port,
+    hostname: options.hostname,
+    // Answers can take longer than Bun's default 10s idle timeout
+    idleTimeout: 255,
+    routes: {
+      "/lessons": {
+        GET: handle(async (req) => {
+          const collections = await resolveCollections(
+            collectionsFromQuery(req),
+          );
+          const result = [];
+          for (const collection of collections) {
+            const lessons = await listCollectionLessons(collection);
+            const info = await withDatabase(collection.dbPath, () =>
+              getLessonInfo(lessons),
+            );
+            result.push(
+              ...lessons.map((lesson) => {
+                const metadata = info.get(lesson);
+                return {
+                  collection: collection.name,
+                  lesson,
+                  title: metadata?.title ?? null,
+                  course: metadata?.course ?? null,
+                  module: metadata?.module ?? null,
+                  tags: metadata?.tags ?? [],
+                };
+              }),
+            );
+          }
+          return Response.json({ lessons: result });
+        }),
+      },
+      // Lesson names contain "/" for nested folders
+      "/lessons/*": {
+        GET: handle(async (req) => {
+          const name = decodeURIComponent(
+            new URL(req.url).pathname.slice("/lessons/".length),
+          );
+          const collections = await resolveCollections(
+            collectionsFromQuery(req),
+          );
+          for (const collection of collections) {
+            const chunks = await withDatabase(collection.dbPath, () =>
+              getLessonChunks(name),
+            );
+            if (chunks.length === 0) continue;
+            const last = chunks[chunks.length - 1];
+            return Response.json({
+              collection: collection.name,
+              lesson: name,
+              chunkCount: chunks.length,
+              durationSeconds: last?.endSeconds ?? 0,
+              chunks: chunks.map((chunk, idx) =>
+                toSourceJson({ ...chunk, collection: collection.name }, idx),
+              ),
+            });
+          }
+          throw new HttpError("NOT_FOUND", `Unknown lesson "${name}".`);
+        }),
+      },
+      "/search": {
+        POST: handle(async (req) => {
+          const body = await readBody(req, searchSchema);
+          const collections = await resolveCollections(body.collections);
+          const lessons = await resolveLessons(body, collections);
+          const models = resolveTextModels(
+            collections,
+            options.modelOverrides,
+            options.config.models,
+          );
+          const result = await searchTranscripts({
+            query: body.query,
+            topK: body.topK,
+            lessons,
+            speakers: body.speakers,
+            from: body.from,
+            to: body.to,
+            collections,
+            lexical: body.lexical,
+            rerankModel: body.rerank ? models.rerank : undefined,
+            expand: body.expand,
+            params: options.config.retrieval,
+          });
+          return Response.json({
+            query: result.query,
+            hits: result.hits.map(toSearchHitJson),
+          });
+        }),
+      },
+      "/ask": {
+        POST: handle(async (req) => {
+          const ask = await prepareAsk(req);
+          const result = await answerQuestion(ask);
+          if (!result) throw new HttpError("NO_MATCHES", "No matches found.");
+          if (ask.strict && !result.verification.grounded) {
+            throw new HttpError(
+              "UNGROUNDED",
+              `The answer failed the citation check:\n${describeIssues(result.verification.issues)}`,
+            );
+          }
+          return Response.json({
+            question: result.question,
+            answer: result.answer,
+            sources: citedSourcesJson(result.sources, result.verification),
+            verification: toVerificationJson(result.verification),
+          });
+        }),
+      },
+      "/ask/stream": {
+        POST: handle(async (req) => {
+          const ask = await prepareAsk(req);
+          if (ask.strict) {
+            throw new HttpError(
+              "INVALID_INPUT",
+              "strict is not supported when streaming; use POST /ask.",
+            );
+          }
+          const encoder = new TextEncoder();
+          const abort = new AbortController();
+          req.signal.addEventListener("abort", () => abort.abort());
+
+          const stream = new ReadableStream({
+            async start(controller) {
+              const send = (event: string, data: unknown) =>
+                controller.enqueue(
+                  encoder.encode(
+                    `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+                  ),
+                );
+              try {
+                const result = await streamAnswer({
+                  ...ask,
+                  abortSignal: abort.signal,
+                  onSources: (sources) =>
+                    send("sources", { sources: sources.map(toSourceJson) }),
+                });
+                if (!result) {
+                  send("error", {
+                    code: "NO_MATCHES",
+                    message: "No matches found.",
+                  });
+                } else {
+                  let answer = "";
+                  for await (const text of result.textStream) {
+                    answer += text;
+                    send("delta", { text });
+                  }
+                  const report = verifyCitations(answer, result.sources);
+                  send("done", {
+                    question: result.question,
+                    answer: answer.trim(),
+                    sources: citedSourcesJson(result.sources, report),
+                    verification: toVerificationJson(report),
+                  });
+                }
+              } catch (error) {
+                if (!abort.signal.aborted) {
+                  send("error", {
+                    code: "ERROR",
+                    message:
+                      error instanceof Error ? error.message : String(error),
+                  });
+                }
+              } finally {
+                if (!abort.signal.aborted) controller.close();
+              }
+            },
+            cancel() {
+              abort.abort();
+            },
+          });
+
+          return new Response(stream, {
+            headers: {
+              "Content-Type": "text/event-stream",
+              "Cache-Control": "no-cache",
+              Connection: "keep-alive",
+            },
+          });
+        }),
+      },
+      "/ingest": {
+        POST: handle(async (req) => {
+          const body = await readBody(req, ingestSchema);
+          const [collection] = await resolveCollections(
+            body.collection ? [body.collection] : undefined,
+          );
+          if (!collection) {
+            throw new HttpError("INVALID_INPUT", "No collection to ingest.");
+          }
+          if (ingestInProgress) {
+            throw new HttpError(
+              "BUSY",
+              `An ingest of ${ingestInProgress} is already running.`,
+            );
+          }
+          const { answer } = resolveTextModels(
+            [collection],
+            options.modelOverrides,
+            options.config.models,
+          );
+          // Without a key, outdated summaries are reported instead of refreshed
+          const summaryModel =
+            usesGateway([answer]) && !process.env.AI_GATEWAY_API_KEY
+              ? undefined
+              : answer;
+          ingestInProgress = collection.name;
+          try {
+            const summary = await withDatabase(collection.dbPath, () =>
+              runIngest({
+                transcriptsDir: collection.transcriptsDir,
+                force: body.force,
+                prune: body.prune,
+                embeddingModel: collection.settings.embeddingModel,
+                chunking: options.config.chunking,
+                batching: options.config.ingest,
+                selection: options.config.transcripts,
+                summaryModel,
+              }),
+            );
+            return Response.json({ collection: collection.name, ...summary });
+          } finally {
+            ingestInProgress = null;
+          }
+        }),
+      },
+    },
+    fetch: () => errorResponse("NOT_FOUND", "Not found."),
+    error: (error) => {
+      console.error("Request failed:", error);
+      return errorResponse("ERROR", error.message);
+    },
+  });
+
+  console.log(`Serving transcript-rag API on ${server.url}`);
+  return server;
+}
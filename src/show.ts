@@ -0,0 +1,70 @@
+import type { Collection } from "./collections";
+import { getLessonInfo, initDb, withDatabase } from "./db";
+import { loadTranscript } from "./formats";
+import { findTranscriptFile } from "./ingest";
+import { lessonUrl } from "./metadata";
+import { normalizeEntries, type SrtEntry } from "./srt";
+
+export const DEFAULT_SHOW_WINDOW_SECONDS = 60;
+
+export type TranscriptExcerpt = {
+  collection: string;
+  lesson: string;
+  title: string | null;
+  // Opens the lesson's video at `at`
+  url: string | null;
+  at: number;
+  from: number;
+  to: number;
+  // Cleaned cues overlapping [from, to]
+  cues: SrtEntry[];
+};
+
+type ExcerptOptions = {
+  collection: Collection;
+  lesson: string;
+  transcriptsDir: string;
+  at: number;
+  // Total span shown, centered on `at`
+  windowSeconds: number;
+};
+
+// Reads cues from the transcript file rather than the index: chunks overlap
+// and lose cue boundaries, and this needs no embedding model
+export async function readTranscriptExcerpt(
+  options: ExcerptOptions,
+): Promise<TranscriptExcerpt> {
+  const path = await findTranscriptFile(options.transcriptsDir, options.lesson);
+  if (!path) {
+    throw new Error(
+      `No transcript file for lesson "${options.lesson}" in ${options.transcriptsDir}.`,
+    );
+  }
+  const transcript = loadTranscript(path, await Bun.file(path).text());
+  if (!transcript) {
+    throw new Error(`Unsupported transcript format: ${path}`);
+  }
+
+  const from = Math.max(0, options.at - options.windowSeconds / 2);
+  const to = options.at + options.windowSeconds / 2;
+  const cues = normalizeEntries(transcript.entries).filter(
+    (cue) => cue.endSeconds >= from && cue.startSeconds <= to,
+  );
+
+  const info = await withDatabase(options.collection.dbPath, async () => {
+    await initDb();
+    return getLessonInfo([options.lesson]).get(options.lesson);
+  });
+  return {
+    collection: options.collection.name,
+    lesson: options.lesson,
+    title: info?.title ?? null,
+    url: info?.videoUrl
+      ? lessonUrl(info.videoUrl, options.lesson, options.at)
+      : null,
+    at: options.at,
+    from,
+    to,
+    cues,
+  };
+}
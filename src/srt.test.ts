@@ -0,0 +1,72 @@
+import { expect, test } from "bun:test";
+import { joinEntries, normalizeEntries, type SrtEntry } from "./srt";
+
+function cues(...texts: string[]): SrtEntry[] {
+  return texts.map((text, idx) => ({
+    start: `00:00:0${idx}`,
+    end: `00:00:0${idx + 1}`,
+    startSeconds: idx,
+    endSeconds: idx + 1,
+    text,
+  }));
+}
+
+test("a speaker label carries over to the following cues", () => {
+  const entries = normalizeEntries(
+    cues(">> Alice: Hello there.", "How are you?", ">> Bob: Fine."),
+  );
+  expect(entries.map((entry) => entry.speaker)).toEqual([
+    "Alice",
+    "Alice",
+    "Bob",
+  ]);
+  expect(joinEntries(entries)).toBe(
+    "Alice: Hello there. How are you? Bob: Fine.",
+  );
+});
+
+test("a bare >> starts an unnamed turn", () => {
+  const entries = normalizeEntries(
+    cues(">> Alice: What do you think?", ">> I disagree.", "Completely."),
+  );
+  expect(entries.map((entry) => entry.speaker)).toEqual([
+    "Alice",
+    undefined,
+    undefined,
+  ]);
+  expect(joinEntries(entries)).toBe(
+    "Alice: What do you think? >> I disagree. Completely.",
+  );
+});
+
+test("a repeated Name: prefix without >> is a speaker", () => {
+  const entries = normalizeEntries(
+    cues("Alice: One.", "Bob: Two.", "Alice: Three.", "Bob: Four."),
+  );
+  expect(entries.map((entry) => entry.speaker)).toEqual([
+    "Alice",
+    "Bob",
+    "Alice",
+    "Bob",
+  ]);
+});
+
+test("colon openers in ordinary text are not speakers", () => {
+  const entries = normalizeEntries(
+    cues(
+      "Note: this only works on Linux.",
+      "Remember: save often.",
+      "Step 1: open the file.",
+      "Step 2: edit it.",
+      "Note: restart afterwards.",
+    ),
+  );
+  expect(entries.every((entry) => entry.speaker === undefined)).toBe(true);
+  expect(entries.map((entry) => entry.text)).toEqual([
+    "Note: this only works on Linux.",
+    "Remember: save often.",
+    "Step 1: open the file.",
+    "Step 2: edit it.",
+    "Note: restart afterwards.",
+  ]);
+});
@@ -4,6 +4,10 @@ export type SrtEntry = {
   startSeconds: number;
   endSeconds: number;
   text: string;
+  // Set by formats with a speaker field, or from a "Name:" prefix
+  speaker?: string;
+  // Starts a new turn, also when the new speaker is unnamed (">>")
+  turn?: boolean;
 };
 
 export type ChunkEntry = {
@@ -13,6 +17,8 @@ export type ChunkEntry = {
   startSeconds: number;
   endSeconds: number;
   text: string;
+  // Distinct speakers in order of appearance
+  speakers: string[];
 };
 
 const TIMECODE_REGEX =
@@ -24,31 +30,129 @@ function normalizeTimestamp(raw: string): string {
   return cleaned.split(".")[0];
 }
 
-function timestampToSeconds(raw: string): number {
-  const cleaned = raw.replace(",", ".");
-  const [hours, minutes, rest] = cleaned.split(":");
-  const [seconds, millis] = rest.split(".");
+// "95", "01:35", "00:01:35" or "00:01:35.250": what users type for a time
+export const TIMESTAMP_PATTERN = /^\d+(:\d{1,2}){0,2}([.,]\d+)?$/;
+
+export function timestampToSeconds(raw: string): number {
+  // Accepts "hh:mm:ss,mmm" (SRT), "[hh:]mm:ss.mmm" (WebVTT) and "h:mm:ss.cc" (ASS)
+  const parts = raw.trim().replace(",", ".").split(":");
+  const [seconds, fraction] = (parts.pop() ?? "").split(".");
   const total =
-    Number(hours) * 3600 +
-    Number(minutes) * 60 +
+    parts.reduce((acc, part) => acc * 60 + Number(part), 0) * 60 +
     Number(seconds) +
-    Number(millis ?? 0) / 1000;
+    Number(`0.${fraction ?? 0}`);
   return Number.isFinite(total) ? total : 0;
 }
 
+export function formatTimestamp(totalSeconds: number): string {
+  const whole = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const seconds = whole % 60;
+  return [hours, minutes, seconds]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+}
+
 function stripBracketedCues(text: string): string {
   return text.replace(/\[[^\]]+?\]/g, " ");
 }
 
-function stripSpeakerPrefix(text: string): string {
-  return text.replace(/^\s*(>>\s*|[A-Za-z][A-Za-z0-9_ -]{0,30}:\s+)/, "");
+// ">>" and/or up to four capitalized words before a colon ("Dr. Jane Doe:")
+const SPEAKER_PREFIX_REGEX =
+  /^\s*(>>\s*)?(?:(\p{Lu}[\p{L}\d'.-]*(?: \p{Lu}[\p{L}\d'.-]*){0,3}):\s+)?/u;
+
+// Openers that take a colon in ordinary speech ("Note: ...", "Step 2: ...")
+const NON_SPEAKER_WORDS = new Set([
+  "answer",
+  "bonus",
+  "caution",
+  "chapter",
+  "example",
+  "hint",
+  "important",
+  "lesson",
+  "note",
+  "part",
+  "question",
+  "quick",
+  "recap",
+  "remember",
+  "reminder",
+  "rule",
+  "section",
+  "step",
+  "summary",
+  "tip",
+  "update",
+  "warning",
+]);
+
+type SpeakerPrefix = {
+  // A ">>" marker: the speaker changes even without a name
+  arrows: boolean;
+  name: string | null;
+  // Text after the whole prefix
+  rest: string;
+};
+
+function splitSpeaker(text: string): SpeakerPrefix | null {
+  const match = text.match(SPEAKER_PREFIX_REGEX);
+  if (!match?.[0].trim()) return null;
+  return {
+    arrows: Boolean(match[1]),
+    name: match[2]?.trim() ?? null,
+    rest: text.slice(match[0].length),
+  };
+}
+
+function isNonSpeaker(name: string): boolean {
+  const first = name.split(" ")[0]!.toLowerCase();
+  return NON_SPEAKER_WORDS.has(first.replace(/[.'-]+$/, ""));
 }
 
 export function normalizeText(text: string): string {
-  const cleaned = stripSpeakerPrefix(stripBracketedCues(text));
+  const prefix = splitSpeaker(stripBracketedCues(text));
+  // Without the rest of the transcript only ">>" marks a speaker for sure
+  const cleaned = prefix?.arrows ? prefix.rest : stripBracketedCues(text);
   return cleaned.replace(/\s+/g, " ").trim();
 }
 
+// "Name: " at each change of speaker, ">> " when the new one is unnamed
+export function speakerLabel(
+  entry: SrtEntry,
+  previous: string | undefined,
+): string {
+  if (entry.speaker) {
+    return entry.speaker !== previous ? `${entry.speaker}: ` : "";
+  }
+  return entry.turn ? ">> " : "";
+}
+
+// Labels each change of speaker so chunks read like a script
+export function joinEntries(entries: SrtEntry[]): string {
+  let current: string | undefined;
+  return entries
+    .map((entry) => {
+      const label = speakerLabel(entry, current);
+      current = entry.speaker;
+      return `${label}${entry.text}`;
+    })
+    .join(" ")
+    .trim();
+}
+
+export function entrySpeakers(entries: SrtEntry[]): string[] {
+  const speakers = entries
+    .map((entry) => entry.speaker)
+    .filter((speaker): speaker is string => Boolean(speaker));
+  return Array.from(new Set(speakers));
+}
+
+export function isSrtContent(content: string): boolean {
+  return TIMECODE_REGEX.test(content);
+}
+
 export function parseSrt(content: string): SrtEntry[] {
   const blocks = content.split(/\r?\n\r?\n/);
   const entries: SrtEntry[] = [];
@@ -77,15 +181,55 @@ export function parseSrt(content: string): SrtEntry[] {
 }
 
 export function normalizeEntries(entries: SrtEntry[]): SrtEntry[] {
+  const cues = entries.map((entry) => {
+    const text = stripBracketedCues(entry.text);
+    return { entry, text, prefix: splitSpeaker(text) };
+  });
+  // "Name:" without ">>" is ordinary text unless it labels several cues
+  const nameCounts = new Map<string, number>();
+  for (const { prefix } of cues) {
+    if (prefix?.name) {
+      nameCounts.set(prefix.name, (nameCounts.get(prefix.name) ?? 0) + 1);
+    }
+  }
+  const isSpeaker = (prefix: SpeakerPrefix) =>
+    prefix.name !== null &&
+    (prefix.arrows ||
+      ((nameCounts.get(prefix.name) ?? 0) > 1 && !isNonSpeaker(prefix.name)));
+
   const normalized: SrtEntry[] = [];
   let lastText = "";
+  // Captions only label the first cue of a turn, so a speaker carries over
+  // until the next label or ">>"
+  let speaker: string | undefined;
+  // A turn whose cue was dropped starts with the next kept cue
+  let turn = false;
+
+  for (const { entry, text, prefix } of cues) {
+    let body = text;
+    if (entry.speaker) {
+      speaker = entry.speaker;
+    } else if (prefix && isSpeaker(prefix)) {
+      speaker = prefix.name!;
+      turn = true;
+      body = prefix.rest;
+    } else if (prefix?.arrows) {
+      speaker = undefined;
+      turn = true;
+      body = text.replace(/^\s*>>/, "");
+    }
 
-  for (const entry of entries) {
-    const cleaned = normalizeText(entry.text);
+    const cleaned = body.replace(/\s+/g, " ").trim();
     if (!cleaned) continue;
     if (cleaned.toLowerCase() === lastText) continue;
     lastText = cleaned.toLowerCase();
-    normalized.push({ ...entry, text: cleaned });
+    normalized.push({
+      ...entry,
+      text: cleaned,
+      speaker,
+      ...(turn ? { turn } : {}),
+    });
+    turn = false;
   }
 
   return normalized;
@@ -118,10 +262,7 @@ export function aggregateEntries(
     }
 
     const slice = entries.slice(startIndex, endIndex);
-    const text = slice
-      .map((entry) => entry.text)
-      .join(" ")
-      .trim();
+    const text = joinEntries(slice);
 
     if (text) {
       const first = slice[0];
@@ -133,6 +274,7 @@ export function aggregateEntries(
         startSeconds: first.startSeconds,
         endSeconds: last.endSeconds,
         text,
+        speakers: entrySpeakers(slice),
       });
       chunkIndex += 1;
     }
@@ -0,0 +1,212 @@
+import { generateText } from "ai";
+import { z } from "zod";
+import {
+  getLessonChunks,
+  getLessonSummaries,
+  saveLessonSummary,
+  type Chapter,
+  type RetrievedChunk,
+} from "./db";
+import { resolveLanguageModel } from "./providers";
+import { formatTimestamp, timestampToSeconds } from "./srt";
+
+// Transcript text per map step, roughly 3k tokens
+const MAP_CHARS = 12_000;
+const MAX_CHAPTERS = 12;
+
+const partSchema = z.object({
+  summary: z.string().min(1),
+  chapters: z
+    .array(
+      z.object({
+        start: z.union([z.string(), z.number()]),
+        title: z.string().min(1),
+      }),
+    )
+    .default([]),
+});
+
+type SummaryPart = z.infer<typeof partSchema>;
+
+const JSON_SHAPE = `Return only JSON, nothing else:
+{"summary": "...", "chapters": [{"start": "hh:mm:ss", "title": "..."}]}`;
+
+export type SummarizeOptions = {
+  lessons: string[];
+  model: string;
+  // Summarize again even when the stored summary is up to date
+  force?: boolean;
+  log?: (message: string) => void;
+};
+
+export type SummarizeResult = {
+  summarized: number;
+  skipped: number;
+  failed: number;
+};
+
+function batchChunks(chunks: RetrievedChunk[]): RetrievedChunk[][] {
+  const batches: RetrievedChunk[][] = [];
+  let current: RetrievedChunk[] = [];
+  let size = 0;
+  for (const chunk of chunks) {
+    if (current.length > 0 && size + chunk.text.length > MAP_CHARS) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(chunk);
+    size += chunk.text.length;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+function mapPrompt(
+  lessonName: string,
+  batch: RetrievedChunk[],
+  part: number,
+  parts: number,
+): string {
+  const first = batch[0]!;
+  const last = batch[batch.length - 1]!;
+  return `
+You are summarizing part ${part} of ${parts} of the lesson "${lessonName}" (${first.startTime} - ${last.endTime}).
+Write a short summary of what this part covers (2-4 sentences) and list the topics it moves through as chapters.
+Each chapter starts at one of the timestamps shown in the transcript. Use only what the transcript says.
+${JSON_SHAPE}
+
+Transcript:
+${batch.map((chunk) => `(${chunk.startTime}) ${chunk.text}`).join("\n")}
+`;
+}
+
+function reducePrompt(lessonName: string, parts: SummaryPart[]): string {
+  return `
+You are combining the summaries of consecutive parts of the lesson "${lessonName}" into one.
+Write a summary of the whole lesson (one paragraph, at most 6 sentences) and an outline of 3-${MAX_CHAPTERS} chapters.
+Merge chapters that cover the same topic; keep the start time of the first one. Use only what the parts say.
+${JSON_SHAPE}
+
+Parts:
+${parts
+  .map(
+    (part, idx) =>
+      `Part ${idx + 1}: ${part.summary}\nChapters: ${JSON.stringify(part.chapters)}`,
+  )
+  .join("\n\n")}
+`;
+}
+
+async function generatePart(model: string, prompt: string) {
+  const { text } = await generateText({
+    model: resolveLanguageModel(model),
+    prompt,
+  });
+  // Models wrap JSON in prose or code fences often enough to look for it
+  const match = text.match(/\{[\s\S]*\}/);
+  let parsed: unknown = null;
+  try {
+    parsed = match ? JSON.parse(match[0]) : null;
+  } catch {
+    // Reported below like any other malformed reply
+  }
+  const part = partSchema.safeParse(parsed);
+  if (!part.success) {
+    throw new Error(`${model} did not return a summary in the expected JSON.`);
+  }
+  return part.data;
+}
+
+// Chapters past the end of the lesson are dropped; the rest are
+// deduplicated, earliest first
+function toChapters(
+  chapters: SummaryPart["chapters"],
+  chunks: RetrievedChunk[],
+): Chapter[] {
+  const start = chunks[0]?.startSeconds ?? 0;
+  const end = chunks[chunks.length - 1]?.endSeconds ?? 0;
+  const bySecond = new Map<number, Chapter>();
+  for (const chapter of chapters) {
+    const raw =
+      typeof chapter.start === "number"
+        ? chapter.start
+        : timestampToSeconds(chapter.start.replace(/^~/, ""));
+    if (!Number.isFinite(raw) || raw > end) continue;
+    const seconds = Math.floor(Math.max(raw, start));
+    if (bySecond.has(seconds)) continue;
+    bySecond.set(seconds, {
+      startSeconds: seconds,
+      startTime: formatTimestamp(seconds),
+      title: chapter.title.trim(),
+    });
+  }
+  return Array.from(bySecond.values())
+    .sort((a, b) => a.startSeconds - b.startSeconds)
+    .slice(0, MAX_CHAPTERS);
+}
+
+// Map: summarize the chunks part by part, in order; reduce: merge the parts
+export async function summarizeLesson(
+  lessonName: string,
+  model: string,
+): Promise<{ summary: string; chapters: Chapter[] }> {
+  const chunks = getLessonChunks(lessonName);
+  if (chunks.length === 0) {
+    throw new Error(`Lesson "${lessonName}" has no chunks.`);
+  }
+  const batches = batchChunks(chunks);
+  const parts: SummaryPart[] = [];
+  for (const [idx, batch] of batches.entries()) {
+    parts.push(
+      await generatePart(
+        model,
+        mapPrompt(lessonName, batch, idx + 1, batches.length),
+      ),
+    );
+  }
+  const combined =
+    parts.length === 1
+      ? parts[0]!
+      : await generatePart(model, reducePrompt(lessonName, parts));
+  return {
+    summary: combined.summary.trim(),
+    chapters: toChapters(combined.chapters, chunks),
+  };
+}
+
+// Runs against the current database; up-to-date summaries are kept
+export async function runSummarize(
+  options: SummarizeOptions,
+): Promise<SummarizeResult> {
+  const log = options.log ?? console.log;
+  const existing = getLessonSummaries(options.lessons);
+  let summarized = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const lessonName of options.lessons) {
+    const stored = existing.get(lessonName);
+    if (stored && !stored.stale && !options.force) {
+      skipped += 1;
+      continue;
+    }
+    try {
+      const result = await summarizeLesson(lessonName, options.model);
+      saveLessonSummary({ lessonName, ...result, model: options.model });
+      summarized += 1;
+      log(`Summarized: ${lessonName} (${result.chapters.length} chapter(s))`);
+    } catch (error) {
+      failed += 1;
+      console.error(
+        `Failed to summarize ${lessonName}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  const failedNote = failed > 0 ? `, failed ${failed}` : "";
+  log(
+    `Summaries complete. Summarized ${summarized}, skipped ${skipped}${failedNote}.`,
+  );
+  return { summarized, skipped, failed };
+}
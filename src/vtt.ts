@@ -0,0 +1,91 @@
+import { formatTimestamp, timestampToSeconds, type SrtEntry } from "./srt";
+
+const CUE_TIMING_REGEX =
+  /^(?<start>(?:\d+:)?\d{2}:\d{2}[.,]\d{3})\s+-->\s+(?<end>(?:\d+:)?\d{2}:\d{2}[.,]\d{3})(?:\s+.*)?$/;
+
+// Blocks that carry no cue text: comments, stylesheets and region definitions
+const NON_CUE_BLOCK_REGEX = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+  "&nbsp;": " ",
+  "&lrm;": "",
+  "&rlm;": "",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&[a-z]+;/g, (entity) => HTML_ENTITIES[entity] ?? entity);
+}
+
+// The first voice tag names the cue's speaker
+function cueSpeaker(lines: string[]): string | undefined {
+  for (const line of lines) {
+    const match = line.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+    if (match?.[1]) return decodeEntities(match[1]).trim();
+  }
+  return undefined;
+}
+
+function cleanCuePayload(text: string, speaker?: string): string {
+  // "<v Speaker>Hello" -> "Speaker: Hello"; the cue's own speaker is dropped
+  // since it is carried on the entry
+  const withSpeakers = text.replace(
+    /<v(?:\.[^\s>]+)*\s+([^>]+)>/g,
+    (_match, voice: string) =>
+      decodeEntities(voice).trim() === speaker ? "" : `${voice.trim()}: `,
+  );
+  const withoutTags = withSpeakers.replace(/<[^>]*>/g, "");
+  return decodeEntities(withoutTags).trim();
+}
+
+export function isVttContent(content: string): boolean {
+  return /^\uFEFF?WEBVTT(?:[ \t]|\r?\n|$)/.test(content);
+}
+
+export function parseVtt(content: string): SrtEntry[] {
+  const blocks = content.replace(/^\uFEFF/, "").split(/\r?\n\s*\r?\n/);
+  const entries: SrtEntry[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/).filter((line) => line.trim());
+    const firstLine = lines[0]?.trim();
+    if (!firstLine) continue;
+    if (firstLine.startsWith("WEBVTT")) continue;
+    if (NON_CUE_BLOCK_REGEX.test(firstLine)) continue;
+
+    // The timing line is preceded by an optional cue identifier
+    const timingIndex = lines.findIndex((line) =>
+      CUE_TIMING_REGEX.test(line.trim()),
+    );
+    if (timingIndex < 0 || timingIndex > 1) continue;
+
+    const match = lines[timingIndex]?.trim().match(CUE_TIMING_REGEX);
+    if (!match?.groups?.start || !match.groups.end) continue;
+
+    const startSeconds = timestampToSeconds(match.groups.start);
+    const endSeconds = timestampToSeconds(match.groups.end);
+    const payload = lines.slice(timingIndex + 1);
+    const speaker = cueSpeaker(payload);
+    const text = payload
+      .map((line) => cleanCuePayload(line, speaker))
+      .filter(Boolean)
+      .join(" ")
+      .trim();
+    if (!text) continue;
+
+    entries.push({
+      start: formatTimestamp(startSeconds),
+      end: formatTimestamp(endSeconds),
+      startSeconds,
+      endSeconds,
+      text,
+      speaker,
+    });
+  }
+
+  return entries;
+}
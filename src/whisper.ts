@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { formatTimestamp, timestampToSeconds, type SrtEntry } from "./srt";
+
+const wordSchema = z.object({
+  word: z.string().optional(),
+  text: z.string().optional(),
+  start: z.number().optional(),
+  end: z.number().optional(),
+});
+
+// OpenAI Whisper, faster-whisper and WhisperX: { segments: [{ start, end, text, words? }] }
+// Diarized WhisperX output adds a speaker per segment
+const segmentSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  text: z.string().optional(),
+  words: z.array(wordSchema).optional(),
+  speaker: z.string().optional(),
+});
+
+// Hugging Face pipelines: { chunks: [{ timestamp: [start, end], text }] }
+const hfChunkSchema = z.object({
+  timestamp: z.tuple([z.number(), z.number().nullable()]),
+  text: z.string(),
+});
+
+// whisper.cpp -oj: { transcription: [{ offsets: { from, to } (ms), text }] }
+const whisperCppSchema = z.object({
+  timestamps: z.object({ from: z.string(), to: z.string() }).optional(),
+  offsets: z.object({ from: z.number(), to: z.number() }).optional(),
+  text: z.string(),
+});
+
+type Segment = { start: number; end: number; text: string; speaker?: string };
+
+function segmentFromWords(
+  segment: z.infer<typeof segmentSchema>,
+): Segment | null {
+  const words = segment.words ?? [];
+  const text =
+    segment.text ??
+    words
+      .map((word) => word.word ?? word.text ?? "")
+      .join("")
+      .trim();
+  if (!text) return null;
+
+  // Word timings are tighter than segment bounds when the model provides them
+  const timedWords = words.filter(
+    (word) => word.start !== undefined && word.end !== undefined,
+  );
+  const start = timedWords[0]?.start ?? segment.start;
+  const end = timedWords[timedWords.length - 1]?.end ?? segment.end;
+  return {
+    start,
+    end: Math.max(start, end),
+    text,
+    speaker: segment.speaker || undefined,
+  };
+}
+
+function extractSegments(data: unknown): Segment[] | null {
+  const root = Array.isArray(data) ? { segments: data } : data;
+  if (!root || typeof root !== "object") return null;
+  const record = root as Record<string, unknown>;
+
+  const segments = z.array(segmentSchema).safeParse(record.segments);
+  if (segments.success) {
+    return segments.data
+      .map(segmentFromWords)
+      .filter((segment): segment is Segment => segment !== null);
+  }
+
+  const chunks = z.array(hfChunkSchema).safeParse(record.chunks);
+  if (chunks.success) {
+    return chunks.data.map((chunk) => ({
+      start: chunk.timestamp[0],
+      end: chunk.timestamp[1] ?? chunk.timestamp[0],
+      text: chunk.text,
+    }));
+  }
+
+  const transcription = z
+    .array(whisperCppSchema)
+    .safeParse(record.transcription);
+  if (transcription.success) {
+    return transcription.data.map((item) => ({
+      start: item.offsets
+        ? item.offsets.from / 1000
+        : timestampToSeconds(item.timestamps?.from ?? "0"),
+      end: item.offsets
+        ? item.offsets.to / 1000
+        : timestampToSeconds(item.timestamps?.to ?? "0"),
+      text: item.text,
+    }));
+  }
+
+  return null;
+}
+
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+export function isWhisperJson(content: string): boolean {
+  const trimmed = content.trimStart();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return false;
+  return extractSegments(parseJson(content)) !== null;
+}
+
+export function parseWhisperJson(content: string): SrtEntry[] {
+  const segments = extractSegments(parseJson(content)) ?? [];
+  return segments
+    .map((segment) => ({ ...segment, text: segment.text.trim() }))
+    .filter((segment) => segment.text)
+    .sort((a, b) => a.start - b.start)
+    .map((segment) => ({
+      start: formatTimestamp(segment.start),
+      end: formatTimestamp(segment.end),
+      startSeconds: segment.start,
+      endSeconds: segment.end,
+      text: segment.text,
+      speaker: segment.speaker,
+    }));
+}